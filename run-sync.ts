@@ -2,28 +2,56 @@ import path from 'path';
 import fs from 'fs';
 import { RemarkableCloudClient, type FileOps } from './src/cloud-client';
 import { SyncManager } from './src/sync-manager';
+import { XochitlFolderSource, type DirectoryOps, type DocumentSource } from './src/document-source';
 
 const fileOps: FileOps = {
 	readFile: async (p: string) => { try { return await fs.promises.readFile(p, "utf-8"); } catch { return null; } },
+	readBinaryFile: async (p: string) => { try { return new Uint8Array(await fs.promises.readFile(p)); } catch { return null; } },
 	writeFile: async (p: string, data: string) => { await fs.promises.mkdir(path.dirname(p), { recursive: true }); await fs.promises.writeFile(p, data, "utf-8"); },
 	writeBinaryFile: async (p: string, data: Uint8Array) => { await fs.promises.mkdir(path.dirname(p), { recursive: true }); await fs.promises.writeFile(p, data); },
 	mkdir: async (p: string) => { await fs.promises.mkdir(p, { recursive: true }); },
 	exists: async (p: string) => { try { await fs.promises.access(p); return true; } catch { return false; } },
+	remove: async (p: string) => { await fs.promises.rm(p, { force: true }); },
+	rename: async (from: string, to: string) => { await fs.promises.mkdir(path.dirname(to), { recursive: true }); await fs.promises.rename(from, to); },
 };
 
+const dirOps: DirectoryOps = {
+	readBinaryFile: fileOps.readBinaryFile,
+	list: async (p: string) => {
+		const result = { files: [] as string[], folders: [] as string[] };
+		try {
+			for (const entry of await fs.promises.readdir(p, { withFileTypes: true })) {
+				if (entry.isDirectory()) result.folders.push(entry.name);
+				else if (entry.isFile()) result.files.push(entry.name);
+			}
+		} catch { /* missing folder */ }
+		return result;
+	},
+};
+
+// Usage: npx tsx run-sync.ts [--local <xochitl dir>]
 async function main() {
+	const localIndex = process.argv.indexOf('--local');
+	const localDir = localIndex >= 0 ? process.argv[localIndex + 1] : undefined;
+
 	const configDir = path.join(process.env.USERPROFILE || process.env.HOME || '.', '.remarkable-sync');
 	console.log('Config dir:', configDir);
 
-	const client = new RemarkableCloudClient(configDir, fileOps);
-	await client.init();
-	console.log('Authenticated:', client.isAuthenticated);
+	let source: DocumentSource;
+	if (localDir) {
+		source = new XochitlFolderSource(path.resolve(localDir), dirOps);
+	} else {
+		const client = new RemarkableCloudClient(configDir, fileOps);
+		await client.init();
+		console.log('Authenticated:', client.isAuthenticated);
+		source = client;
+	}
 
 	const vaultPath = path.resolve('.');
 	const manager = await SyncManager.create(vaultPath, 'reMarkable', fileOps);
 
 	console.log('Starting force sync...');
-	const results = await manager.sync(client, {
+	const results = await manager.sync(source, {
 		force: true,
 		onProgress: (msg: string) => console.log(msg),
 	});
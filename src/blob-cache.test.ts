@@ -0,0 +1,115 @@
+/**
+ * Unit tests for the persistent blob cache.
+ *
+ * Run: npx tsx --test src/blob-cache.test.ts
+ */
+import test from "node:test";
+import assert from "node:assert/strict";
+import { BlobCache } from "./blob-cache";
+import type { FileOps } from "./cloud-client";
+
+/** In-memory FileOps covering both the text index and binary blobs. */
+function memoryFileOps(): { ops: FileOps; files: Map<string, string | Uint8Array> } {
+	const files = new Map<string, string | Uint8Array>();
+	const ops: FileOps = {
+		readFile: async (p) => {
+			const v = files.get(p);
+			return typeof v === "string" ? v : null;
+		},
+		readBinaryFile: async (p) => {
+			const v = files.get(p);
+			return v instanceof Uint8Array ? v : null;
+		},
+		writeFile: async (p, data) => {
+			files.set(p, data);
+		},
+		writeBinaryFile: async (p, data) => {
+			files.set(p, data);
+		},
+		mkdir: async () => {},
+		exists: async (p) => files.has(p),
+		remove: async (p) => {
+			files.delete(p);
+		},
+		rename: async (from, to) => {
+			const data = files.get(from);
+			if (data === undefined) throw new Error(`No such file: ${from}`);
+			files.set(to, data);
+			files.delete(from);
+		},
+	};
+	return { ops, files };
+}
+
+const hash = (n: number) => n.toString(16).padStart(64, "0");
+const blob = (size: number) => new Uint8Array(size).fill(7);
+
+test("a stored blob is returned on the next lookup", async () => {
+	const { ops } = memoryFileOps();
+	const cache = new BlobCache("/cache", ops);
+
+	assert.equal(await cache.get(hash(1)), null);
+	await cache.put(hash(1), blob(10));
+	assert.deepEqual(await cache.get(hash(1)), blob(10));
+});
+
+test("blobs are sharded by hash prefix and the index survives a restart", async () => {
+	const { ops, files } = memoryFileOps();
+	const first = new BlobCache("/cache", ops);
+	await first.put("ab" + "c".repeat(62), blob(4));
+	await first.flush();
+
+	assert.ok(files.has(`/cache/ab/ab${"c".repeat(62)}`));
+	assert.ok(files.has("/cache/index.json"));
+
+	const second = new BlobCache("/cache", ops);
+	assert.deepEqual(await second.get("ab" + "c".repeat(62)), blob(4));
+	assert.equal(second.size, 4);
+});
+
+test("the least recently used blobs are evicted past the size limit", async () => {
+	const { ops, files } = memoryFileOps();
+	const cache = new BlobCache("/cache", ops, 25);
+
+	await cache.put(hash(1), blob(10));
+	await new Promise((r) => setTimeout(r, 2));
+	await cache.put(hash(2), blob(10));
+	await new Promise((r) => setTimeout(r, 2));
+	// Touch blob 1 so blob 2 becomes the oldest.
+	await cache.get(hash(1));
+	await new Promise((r) => setTimeout(r, 2));
+	await cache.put(hash(3), blob(10));
+
+	assert.equal(cache.count, 2);
+	assert.ok(cache.size <= 25);
+	assert.equal(await cache.get(hash(2)), null);
+	assert.ok(!files.has(`/cache/00/${hash(2)}`), "evicted blob is removed from disk");
+	assert.ok(await cache.get(hash(1)));
+	assert.ok(await cache.get(hash(3)));
+});
+
+test("a blob stored by two puts at once is counted once", async () => {
+	const { ops } = memoryFileOps();
+	const cache = new BlobCache("/cache", ops);
+	await Promise.all([cache.put(hash(4), blob(6)), cache.put(hash(4), blob(6))]);
+
+	assert.equal(cache.count, 1);
+	assert.equal(cache.size, 6);
+});
+
+test("a blob that went missing on disk is treated as a miss and forgotten", async () => {
+	const { ops, files } = memoryFileOps();
+	const cache = new BlobCache("/cache", ops);
+	await cache.put(hash(5), blob(8));
+	files.delete(`/cache/00/${hash(5)}`);
+
+	assert.equal(await cache.get(hash(5)), null);
+	assert.equal(cache.count, 0);
+});
+
+test("hashes with path characters are never used as paths", async () => {
+	const { ops, files } = memoryFileOps();
+	const cache = new BlobCache("/cache", ops);
+	await cache.put("../../etc/passwd", blob(3));
+	assert.equal(files.size, 0);
+});
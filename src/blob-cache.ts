@@ -0,0 +1,171 @@
+/**
+ * Blob Cache
+ *
+ * Persistent, content-addressed cache for sync15 blobs. Blobs on the
+ * reMarkable cloud are immutable and named by their hash, so a blob fetched
+ * once never has to be fetched again. The cache lives OUTSIDE the vault (next
+ * to the token store) and is bounded by total size, evicting the least
+ * recently used blobs first. Obsidian-independent via abstracted file I/O.
+ */
+
+import type { FileOps } from "./cloud-client";
+
+export const DEFAULT_BLOB_CACHE_BYTES = 500 * 1024 * 1024;
+
+const INDEX_FILENAME = "index.json";
+
+// Blob hashes are hex digests; anything that isn't plain alphanumeric is never
+// written to disk, so a malformed hash can't become a path outside the cache.
+const HASH_PATTERN = /^[0-9a-z]{16,128}$/i;
+
+interface CacheEntry {
+	size: number;
+	lastUsed: number;
+}
+
+export class BlobCache {
+	private dir: string;
+	private fileOps: FileOps;
+	private maxBytes: number;
+	private entries: Map<string, CacheEntry> = new Map();
+	private totalBytes = 0;
+	private loading: Promise<void> | null = null;
+	// Puts still writing, by hash, so a blob fetched twice at once is stored once.
+	private writing: Map<string, Promise<void>> = new Map();
+	private dirty = false;
+
+	constructor(dir: string, fileOps: FileOps, maxBytes = DEFAULT_BLOB_CACHE_BYTES) {
+		this.dir = dir;
+		this.fileOps = fileOps;
+		this.maxBytes = maxBytes;
+	}
+
+	get size(): number {
+		return this.totalBytes;
+	}
+
+	get count(): number {
+		return this.entries.size;
+	}
+
+	/** Return the cached blob, or null on a miss (or any read error). */
+	async get(hash: string): Promise<Uint8Array | null> {
+		if (!HASH_PATTERN.test(hash)) return null;
+		await this.ensureLoaded();
+
+		const entry = this.entries.get(hash);
+		if (!entry) return null;
+
+		try {
+			const data = await this.fileOps.readBinaryFile(this.blobPath(hash));
+			if (data && data.byteLength === entry.size) {
+				entry.lastUsed = Date.now();
+				this.dirty = true;
+				return data;
+			}
+		} catch {
+			// Fall through and forget the entry
+		}
+		// Missing or truncated on disk — drop it so it is fetched again.
+		this.forget(hash);
+		return null;
+	}
+
+	/**
+	 * Store a blob. Failures are swallowed: the cache is an optimisation and
+	 * must never break a sync.
+	 */
+	async put(hash: string, data: Uint8Array): Promise<void> {
+		if (!HASH_PATTERN.test(hash) || data.byteLength > this.maxBytes) return;
+		await this.ensureLoaded();
+		if (this.entries.has(hash)) return;
+
+		const pending = this.writing.get(hash);
+		if (pending) return pending;
+		const write = this.store(hash, data).finally(() => this.writing.delete(hash));
+		this.writing.set(hash, write);
+		return write;
+	}
+
+	/** Persist the LRU index if anything changed since the last flush. */
+	async flush(): Promise<void> {
+		if (!this.dirty) return;
+		this.dirty = false;
+		const index: Record<string, CacheEntry> = {};
+		for (const [hash, entry] of this.entries) index[hash] = entry;
+		try {
+			await this.fileOps.writeFile(this.indexPath, JSON.stringify(index));
+		} catch {
+			// Index will be rewritten on the next flush
+			this.dirty = true;
+		}
+	}
+
+	// Write one blob and count it; put runs this once per hash at a time.
+	private async store(hash: string, data: Uint8Array): Promise<void> {
+		try {
+			await this.fileOps.writeBinaryFile(this.blobPath(hash), data);
+		} catch {
+			return;
+		}
+		this.entries.set(hash, { size: data.byteLength, lastUsed: Date.now() });
+		this.totalBytes += data.byteLength;
+		this.dirty = true;
+
+		await this.evict();
+	}
+
+	private get indexPath(): string {
+		return `${this.dir}/${INDEX_FILENAME}`;
+	}
+
+	// Shard by the first two hex digits to keep directories small.
+	private blobPath(hash: string): string {
+		return `${this.dir}/${hash.substring(0, 2)}/${hash}`;
+	}
+
+	private ensureLoaded(): Promise<void> {
+		if (!this.loading) this.loading = this.load();
+		return this.loading;
+	}
+
+	private async load(): Promise<void> {
+		try {
+			const data = await this.fileOps.readFile(this.indexPath);
+			if (!data) return;
+			const parsed: Record<string, CacheEntry> = JSON.parse(data);
+			for (const [hash, entry] of Object.entries(parsed)) {
+				if (!HASH_PATTERN.test(hash) || typeof entry?.size !== "number") continue;
+				this.entries.set(hash, { size: entry.size, lastUsed: entry.lastUsed ?? 0 });
+				this.totalBytes += entry.size;
+			}
+		} catch {
+			// No index or invalid JSON — start empty
+		}
+	}
+
+	private forget(hash: string): void {
+		const entry = this.entries.get(hash);
+		if (!entry) return;
+		this.entries.delete(hash);
+		this.totalBytes -= entry.size;
+		this.dirty = true;
+	}
+
+	private async evict(): Promise<void> {
+		if (this.totalBytes <= this.maxBytes) return;
+
+		const oldestFirst = Array.from(this.entries.entries()).sort(
+			(a, b) => a[1].lastUsed - b[1].lastUsed
+		);
+		for (const [hash] of oldestFirst) {
+			if (this.totalBytes <= this.maxBytes) break;
+			this.forget(hash);
+			try {
+				await this.fileOps.remove(this.blobPath(hash));
+			} catch {
+				// Orphaned file; harmless
+			}
+		}
+	}
+}
@@ -13,10 +13,16 @@ import assert from "node:assert/strict";
 import {
 	RemarkableCloudClient,
 	SYNC_HOST,
+	TokenStore,
+	decodeTokenClaims,
+	normalizeHost,
+	parseRetryAfter,
 	type FetchFn,
+	type Timers,
 	type FetchResponse,
 	type FileOps,
 } from "./cloud-client";
+import { BlobCache } from "./blob-cache";
 
 const ROOT_HASH = "roothash000000000000000000000000";
 const DOC_HASH = "dochash0000000000000000000000000";
@@ -48,10 +54,13 @@ function mockFileOps(): FileOps {
 	});
 	return {
 		readFile: async () => token,
+		readBinaryFile: async () => null,
 		writeFile: async () => {},
 		writeBinaryFile: async () => {},
 		mkdir: async () => {},
 		exists: async () => true,
+		remove: async () => {},
+		rename: async () => {},
 	};
 }
 
@@ -122,3 +131,460 @@ test("downloadDocument requests content blobs with their real filenames", async
 	);
 	assert.equal(contentCall?.rmFilename, `${DOC_UUID}.metadata`);
 });
+
+// --- Upload (write path) ---
+
+interface Put {
+	url: string;
+	rmFilename?: string;
+	body: string | ArrayBuffer | undefined;
+}
+
+/**
+ * Build a fetch mock backed by an in-memory blob store, so uploads can be read
+ * back. `rootConflicts` makes the first N root updates fail with 412.
+ */
+function makeWritableFetch(puts: Put[], rootConflicts = 0): FetchFn {
+	const rootIndex = `3\n${DOC_HASH}:80000000:${DOC_UUID}:1:100`;
+	const docIndex = `3\n${META_HASH}:0:${DOC_UUID}.metadata:1:50`;
+	const metadata = JSON.stringify({ visibleName: "Test Doc", type: "DocumentType", parent: "" });
+	const blobs = new Map<string, string | ArrayBuffer>([
+		[ROOT_HASH, rootIndex],
+		[DOC_HASH, docIndex],
+		[META_HASH, metadata],
+	]);
+	let root = { hash: ROOT_HASH, generation: 7 };
+	let conflicts = rootConflicts;
+
+	return async (url, options) => {
+		const method = options?.method ?? "GET";
+		if (url === `${SYNC_HOST}/sync/v3/root`) {
+			if (method === "GET") return makeResponse(JSON.stringify(root));
+			const body = JSON.parse(options!.body as string);
+			if (conflicts > 0) {
+				conflicts--;
+				root = { ...root, generation: root.generation + 1 };
+				return makeResponse("generation mismatch", 412);
+			}
+			assert.equal(body.generation, root.generation);
+			root = { hash: body.hash, generation: root.generation + 1 };
+			return makeResponse(JSON.stringify(root));
+		}
+		const hash = url.substring(`${SYNC_HOST}/sync/v3/files/`.length);
+		if (method === "PUT") {
+			puts.push({ url, rmFilename: options?.headers?.["rm-filename"], body: options?.body });
+			blobs.set(hash, options!.body!);
+			return makeResponse("");
+		}
+		const blob = blobs.get(hash);
+		if (blob === undefined) return makeResponse("not found", 404);
+		return typeof blob === "string"
+			? makeResponse(blob)
+			: { ok: true, status: 200, text: async () => "", json: async () => ({}), arrayBuffer: async () => blob };
+	};
+}
+
+async function sha256(body: string | ArrayBuffer | undefined): Promise<string> {
+	const bytes = typeof body === "string" ? new TextEncoder().encode(body) : new Uint8Array(body!);
+	const digest = await crypto.subtle.digest("SHA-256", bytes);
+	return Buffer.from(digest).toString("hex");
+}
+
+test("uploadDocument writes content-addressed blobs and a new root entry", async () => {
+	const puts: Put[] = [];
+	const fetchFn = makeWritableFetch(puts);
+	const client = new RemarkableCloudClient("/cfg", mockFileOps(), fetchFn);
+	await client.init();
+
+	const pdf = new TextEncoder().encode("%PDF-1.4 fake");
+	const docId = await client.uploadDocument("Paper", pdf, "pdf");
+
+	const names = puts.map((p) => p.rmFilename);
+	assert.deepEqual(names, [
+		`${docId}.pdf`,
+		`${docId}.metadata`,
+		`${docId}.content`,
+		`${docId}.docSchema`,
+		"root.docSchema",
+	]);
+	// Every blob is stored under the SHA-256 of its bytes.
+	for (const put of puts) {
+		assert.ok(put.url.endsWith(`/${await sha256(put.body)}`), `hash mismatch for ${put.rmFilename}`);
+	}
+
+	// The new document shows up in the listing, alongside the existing one.
+	const reader = new RemarkableCloudClient("/cfg", mockFileOps(), fetchFn);
+	await reader.init();
+	const docs = await reader.listDocuments();
+	const uploaded = docs.find((d) => d.id === docId);
+	assert.equal(uploaded?.name, "Paper");
+	assert.ok(docs.some((d) => d.id === DOC_UUID));
+});
+
+test("uploadDocument rebuilds the root and retries when the generation changed", async () => {
+	const puts: Put[] = [];
+	const client = new RemarkableCloudClient("/cfg", mockFileOps(), makeWritableFetch(puts, 1));
+	await client.init();
+
+	await client.uploadDocument("Book", new Uint8Array([1, 2, 3]), "epub");
+
+	const rootPuts = puts.filter((p) => p.rmFilename === "root.docSchema");
+	assert.equal(rootPuts.length, 2);
+});
+
+test("uploadDocument gives up after repeated root conflicts", async () => {
+	const client = new RemarkableCloudClient("/cfg", mockFileOps(), makeWritableFetch([], 10));
+	await client.init();
+
+	await assert.rejects(
+		() => client.uploadDocument("Book", new Uint8Array([1]), "epub"),
+		/Failed to update root/
+	);
+});
+
+test("the root update and device registration are never retried automatically", async () => {
+	const calls: { method: string; url: string }[] = [];
+	const inner = makeWritableFetch([]);
+	const fetchFn: FetchFn = async (url, options) => {
+		const method = options?.method ?? "GET";
+		calls.push({ method, url });
+		if (method === "PUT" && url.endsWith("/sync/v3/root")) return makeResponse("unavailable", 503);
+		if (url.endsWith("/token/json/2/device/new")) return makeResponse("unavailable", 503);
+		return inner(url, options);
+	};
+	const client = new RemarkableCloudClient("/cfg", mockFileOps(), fetchFn);
+	client.retryPolicy = FAST_RETRY;
+	await client.init();
+
+	await assert.rejects(() => client.uploadDocument("Book", new Uint8Array([1]), "epub"), /HTTP 503/);
+	const rootCalls = calls.filter((c) => c.url.endsWith("/sync/v3/root"));
+	// One pointer read (the index is read from its hash) and one update.
+	assert.deepEqual(rootCalls.map((c) => c.method), ["GET", "PUT"]);
+
+	assert.equal(await client.registerDevice("code"), false);
+	assert.equal(calls.filter((c) => c.url.endsWith("/token/json/2/device/new")).length, 1);
+});
+
+// --- Blob cache ---
+
+test("blobs already in the cache are not downloaded again", async () => {
+	const stored = new Map<string, Uint8Array>();
+	const cacheOps: FileOps = {
+		readFile: async () => null,
+		readBinaryFile: async (p) => stored.get(p) ?? null,
+		writeFile: async () => {},
+		writeBinaryFile: async (p, data) => {
+			stored.set(p, data);
+		},
+		mkdir: async () => {},
+		exists: async (p) => stored.has(p),
+		remove: async (p) => {
+			stored.delete(p);
+		},
+		rename: async () => {},
+	};
+	const cache = new BlobCache("/cache", cacheOps);
+
+	const first: Recorded[] = [];
+	const client = new RemarkableCloudClient("/cfg", mockFileOps(), makeFetch(first));
+	client.cache = cache;
+	await client.init();
+	await client.listDocuments();
+	assert.equal(first.filter((c) => c.url.includes("/sync/v3/files/")).length, 3);
+
+	const second: Recorded[] = [];
+	const again = new RemarkableCloudClient("/cfg", mockFileOps(), makeFetch(second));
+	again.cache = cache;
+	await again.init();
+	const docs = await again.listDocuments();
+
+	assert.equal(docs[0].name, "Test Doc");
+	// Only the mutable root pointer is requested; every blob comes from the cache.
+	assert.deepEqual(second.map((c) => c.url), [`${SYNC_HOST}/sync/v3/root`]);
+});
+
+// --- Incremental listing ---
+
+test("an unchanged root hash reuses the previous listing after one request", async () => {
+	const client = new RemarkableCloudClient("/cfg", mockFileOps(), makeFetch([]));
+	await client.init();
+	const previous = await client.fetchListing(null);
+	assert.equal(previous.rootHash, ROOT_HASH);
+
+	const calls: Recorded[] = [];
+	const again = new RemarkableCloudClient("/cfg", mockFileOps(), makeFetch(calls));
+	await again.init();
+	const listing = await again.fetchListing(previous);
+
+	assert.deepEqual(listing.documents, previous.documents);
+	assert.deepEqual(calls.map((c) => c.url), [`${SYNC_HOST}/sync/v3/root`]);
+});
+
+test("a changed root only refetches entries whose hash changed", async () => {
+	const OTHER_UUID = "00000000-0000-4000-8000-000000000002";
+	const OTHER_HASH = "otherhash00000000000000000000000";
+	const OTHER_META = "othermeta00000000000000000000000";
+	const NEW_ROOT = "newroot000000000000000000000000";
+
+	const calls: Recorded[] = [];
+	const blobs: Record<string, string> = {
+		[NEW_ROOT]: `3\n${DOC_HASH}:80000000:${DOC_UUID}:1:100\n${OTHER_HASH}:80000000:${OTHER_UUID}:1:100`,
+		[OTHER_HASH]: `3\n${OTHER_META}:0:${OTHER_UUID}.metadata:1:50`,
+		[OTHER_META]: JSON.stringify({ visibleName: "New Doc", type: "DocumentType", parent: "" }),
+	};
+	const fetchFn: FetchFn = async (url) => {
+		calls.push({ url });
+		if (url === `${SYNC_HOST}/sync/v3/root`) return makeResponse(JSON.stringify({ hash: NEW_ROOT }));
+		const hash = url.substring(`${SYNC_HOST}/sync/v3/files/`.length);
+		return hash in blobs ? makeResponse(blobs[hash]) : makeResponse("not found", 404);
+	};
+
+	const previous = {
+		rootHash: ROOT_HASH,
+		documents: [
+			{
+				id: DOC_UUID,
+				version: 1,
+				name: "Test Doc",
+				parent: "",
+				docType: "DocumentType",
+				createdTime: "",
+				modifiedTime: "",
+				pinned: false,
+				isTrashed: false,
+				entryHash: DOC_HASH,
+				fileType: "notebook" as const,
+				tags: [],
+			},
+		],
+	};
+
+	const client = new RemarkableCloudClient("/cfg", mockFileOps(), fetchFn);
+	await client.init();
+	const listing = await client.fetchListing(previous);
+
+	assert.equal(listing.rootHash, NEW_ROOT);
+	assert.deepEqual(listing.documents.map((d) => d.name), ["Test Doc", "New Doc"]);
+	// The unchanged document's sub-index (DOC_HASH) was never requested.
+	assert.ok(!calls.some((c) => c.url.endsWith(DOC_HASH)));
+	assert.ok(calls.some((c) => c.url.endsWith(OTHER_HASH)));
+});
+
+// --- Retry layer ---
+
+const FAST_RETRY = { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 0, timeoutMs: 1000 };
+
+/** Wrap a fetch so the first `failures` calls to `match` fail with `failWith`. */
+function flaky(
+	inner: FetchFn,
+	match: string,
+	failures: number,
+	failWith: (options: Parameters<FetchFn>[1]) => Promise<FetchResponse>
+): FetchFn {
+	let remaining = failures;
+	return async (url, options) => {
+		if (url.endsWith(match) && remaining > 0) {
+			remaining--;
+			return failWith(options);
+		}
+		return inner(url, options);
+	};
+}
+
+test("transient 502s and dropped connections are retried and logged", async () => {
+	let fetchFn = makeFetch([]);
+	fetchFn = flaky(fetchFn, META_HASH, 1, async () => makeResponse("bad gateway", 502));
+	fetchFn = flaky(fetchFn, DOC_HASH, 1, async () => {
+		throw new Error("socket hang up");
+	});
+
+	const retries: string[] = [];
+	const client = new RemarkableCloudClient("/cfg", mockFileOps(), fetchFn);
+	client.retryPolicy = FAST_RETRY;
+	client.onRetry = (m) => retries.push(m);
+	await client.init();
+
+	const docs = await client.listDocuments();
+	assert.equal(docs[0].name, "Test Doc");
+	assert.equal(retries.length, 2);
+	assert.ok(retries.some((r) => r.includes("socket hang up")));
+	assert.ok(retries.some((r) => r.includes("HTTP 502") && r.includes(".metadata")));
+});
+
+test("a request that keeps failing reports the last status after maxAttempts", async () => {
+	const calls: Recorded[] = [];
+	const fetchFn = flaky(makeFetch(calls), META_HASH, 99, async () => makeResponse("busy", 503));
+	const client = new RemarkableCloudClient("/cfg", mockFileOps(), fetchFn);
+	client.retryPolicy = FAST_RETRY;
+	await client.init();
+
+	await assert.rejects(() => client.listDocuments(), /HTTP 503/);
+});
+
+test("a 401 on any call refreshes the user token once and retries", async () => {
+	const calls: { url: string; auth?: string }[] = [];
+	const inner = makeFetch([]);
+	let rejected = false;
+	const fetchFn: FetchFn = async (url, options) => {
+		calls.push({ url, auth: options?.headers?.Authorization });
+		if (url.endsWith("/token/json/2/user/new")) return makeResponse("fresh-token");
+		if (url.endsWith(META_HASH) && !rejected) {
+			rejected = true;
+			return makeResponse("unauthorized", 401);
+		}
+		return inner(url, options);
+	};
+	const client = new RemarkableCloudClient("/cfg", mockFileOps(), fetchFn);
+	client.retryPolicy = FAST_RETRY;
+	await client.init();
+
+	await client.listDocuments();
+	const metaCalls = calls.filter((c) => c.url.endsWith(META_HASH));
+	assert.deepEqual(metaCalls.map((c) => c.auth), ["Bearer usr", "Bearer fresh-token"]);
+});
+
+test("a hung request times out, is aborted and is retried", async () => {
+	let aborted = false;
+	const hang = (options: Parameters<FetchFn>[1]) =>
+		new Promise<FetchResponse>(() => {
+			options?.signal?.addEventListener("abort", () => (aborted = true));
+		});
+	const fetchFn = flaky(makeFetch([]), META_HASH, 1, hang);
+	const retries: string[] = [];
+	const client = new RemarkableCloudClient("/cfg", mockFileOps(), fetchFn);
+	client.retryPolicy = { ...FAST_RETRY, timeoutMs: 20 };
+	client.onRetry = (m) => retries.push(m);
+	await client.init();
+
+	const docs = await client.listDocuments();
+	assert.equal(docs.length, 1);
+	assert.match(retries[0], /timed out/);
+	assert.ok(aborted, "the timed-out fetch is aborted, not left open");
+});
+
+test("cancelling during a retry delay clears the delay's timer", async () => {
+	const fetchFn = flaky(makeFetch([]), META_HASH, 99, async () => makeResponse("busy", 503));
+	// Timers that never fire, so a timer left behind stays visible.
+	const pending = new Set<number>();
+	let nextId = 0;
+	const timers: Timers = {
+		setTimeout: () => {
+			pending.add(++nextId);
+			return nextId;
+		},
+		clearTimeout: (id) => pending.delete(id as number),
+	};
+	const controller = new AbortController();
+	const client = new RemarkableCloudClient("/cfg", mockFileOps(), fetchFn, timers);
+	client.retryPolicy = { ...FAST_RETRY, baseDelayMs: 60_000, maxDelayMs: 60_000 };
+	client.onRetry = () => queueMicrotask(() => controller.abort());
+	await client.init();
+
+	await assert.rejects(client.fetchListing(null, undefined, controller.signal), /Cancelled/);
+	assert.equal(pending.size, 0);
+});
+
+test("Retry-After is honoured in seconds or as an HTTP date", () => {
+	assert.equal(parseRetryAfter("3"), 3000);
+	assert.equal(parseRetryAfter(null), null);
+	assert.equal(parseRetryAfter("nonsense"), null);
+	const now = Date.parse("2026-01-01T00:00:00Z");
+	assert.equal(parseRetryAfter("Thu, 01 Jan 2026 00:00:05 GMT", now), 5000);
+});
+
+// --- Self-hosted servers ---
+
+test("a self-hosted server is used for every request, including registration", async () => {
+	const HOST = "https://rm.example.test:3000";
+	const urls: string[] = [];
+	const written: string[] = [];
+	const inner = makeFetch([]);
+	const fetchFn: FetchFn = async (url, options) => {
+		urls.push(url);
+		if (url === `${HOST}/token/json/2/device/new`) return makeResponse("device-token");
+		return inner(url.replace(HOST, SYNC_HOST), options);
+	};
+	const ops = { ...mockFileOps(), writeFile: async (p: string) => void written.push(p) };
+
+	const client = new RemarkableCloudClient("/cfg", ops, fetchFn);
+	client.setHosts({ authHost: HOST, syncHost: HOST });
+	await client.init();
+
+	assert.equal(await client.registerDevice("code"), true);
+	await client.listDocuments();
+
+	assert.ok(urls.length > 0);
+	for (const url of urls) assert.ok(url.startsWith(HOST), `unexpected host: ${url}`);
+	// Tokens for another server never overwrite the reMarkable cloud token file.
+	assert.deepEqual(written, ["/cfg/token-rm.example.test_3000.json"]);
+});
+
+test("service discovery returns the advertised sync host", async () => {
+	const fetchFn: FetchFn = async (url) =>
+		url.includes("/service/json/1/document-storage")
+			? makeResponse(JSON.stringify({ Status: "OK", Host: "sync.example.test" }))
+			: makeResponse("not found", 404);
+	const client = new RemarkableCloudClient("/cfg", mockFileOps(), fetchFn);
+	assert.equal(await client.discoverSyncHost(), "https://sync.example.test");
+
+	const unsupported = new RemarkableCloudClient("/cfg", mockFileOps(), async () => makeResponse("no", 404));
+	assert.equal(await unsupported.discoverSyncHost(), null);
+});
+
+test("normalizeHost adds a scheme and strips trailing slashes", () => {
+	assert.equal(normalizeHost(" rm.example.test/ "), "https://rm.example.test");
+	assert.equal(normalizeHost("http://10.0.0.2:3000//"), "http://10.0.0.2:3000");
+	assert.equal(normalizeHost(""), null);
+	assert.equal(normalizeHost("https://"), null);
+});
+
+// --- User token claims ---
+
+function jwt(payload: Record<string, unknown>): string {
+	const b64url = (s: string) => Buffer.from(s).toString("base64url");
+	return `${b64url(JSON.stringify({ alg: "HS256" }))}.${b64url(JSON.stringify(payload))}.sig`;
+}
+
+test("decodeTokenClaims reads expiry, account and scopes from the JWT", () => {
+	const claims = decodeTokenClaims(
+		jwt({
+			iat: 1_700_000_000,
+			exp: 1_700_086_400,
+			"auth0-profile": { Email: "ada@example.com", UserID: "auth0|42" },
+			scopes: "intgr sync:tortoise",
+		})
+	);
+	assert.equal(claims?.email, "ada@example.com");
+	assert.equal(claims?.userId, "auth0|42");
+	assert.deepEqual(claims?.scopes, ["intgr", "sync:tortoise"]);
+	assert.equal(claims?.syncVersion, "sync15");
+	assert.equal(claims?.expiresAt?.getTime(), 1_700_086_400_000);
+
+	assert.equal(decodeTokenClaims("not-a-jwt"), null);
+	assert.equal(decodeTokenClaims("a.%%%.c"), null);
+});
+
+test("refreshUserToken uses the expiry issued by the server", async () => {
+	const exp = Math.floor(Date.now() / 1000) + 2 * 60 * 60;
+	const token = jwt({ iat: exp - 2 * 60 * 60, exp, scopes: "sync:fox" });
+	const fetchFn: FetchFn = async () => makeResponse(token);
+	const client = new RemarkableCloudClient("/cfg", mockFileOps(), fetchFn);
+	await client.init();
+
+	assert.equal(await client.refreshUserToken(), true);
+	assert.equal(client.tokens.userTokenExpiry?.getTime(), exp * 1000);
+	assert.equal(client.tokens.isUserTokenValid(), true);
+});
+
+test("the refresh buffer scales with the token's lifetime", () => {
+	const store = new TokenStore("/cfg", mockFileOps());
+	const now = Math.floor(Date.now() / 1000);
+
+	// A 10-minute token with 3 minutes left is still usable (buffer = 1 min)...
+	store.setUserToken(jwt({ iat: now - 7 * 60, exp: now + 3 * 60 }));
+	assert.equal(store.isUserTokenValid(), true);
+
+	// ...but a 24-hour token with 30 minutes left is refreshed (buffer = 1 h).
+	store.setUserToken(jwt({ iat: now - 23.5 * 60 * 60, exp: now + 30 * 60 }));
+	assert.equal(store.isUserTokenValid(), false);
+});
@@ -5,11 +5,32 @@
  * Uses the sync15 (v3) protocol. Pure TypeScript with fetch() — no Obsidian deps.
  */
 
+import { clearTimeout, setTimeout } from "node:timers";
+import type { BlobCache } from "./blob-cache";
+import { CANCELLED_MESSAGE, abortable, mapConcurrent, throwIfAborted } from "./concurrency";
+import type { DocumentSource } from "./document-source";
+
 // --- Constants ---
 
 export const AUTH_HOST = "https://webapp-prod.cloud.remarkable.engineering";
 export const SYNC_HOST = "https://internal.cloud.remarkable.com";
 
+// Service discovery endpoint (served by the official auth host and by
+// rmfakecloud) that names the document-storage host for an account.
+const DISCOVERY_PATH =
+	"/service/json/1/document-storage?environment=production&group=auth0%7C5a68dc51cb30df3877a1d7c4&apiVer=2";
+
+/**
+ * Where the client talks to. Defaults to the official reMarkable cloud; a
+ * self-hosted server (e.g. rmfakecloud) usually serves both from one URL.
+ */
+export interface CloudHosts {
+	authHost: string;
+	syncHost: string;
+}
+
+export const DEFAULT_HOSTS: CloudHosts = { authHost: AUTH_HOST, syncHost: SYNC_HOST };
+
 // The sync v3 blob endpoint now requires an `rm-filename` header whose value
 // must match the blob's logical name, otherwise it returns HTTP 400
 // ({"message":"unexpected 'rm-filename' http header"}). Index blobs use the
@@ -18,11 +39,52 @@ const RM_FILENAME_HEADER = "rm-filename";
 const DOC_SCHEMA_EXT = "docSchema";
 const ROOT_INDEX_FILENAME = `root.${DOC_SCHEMA_EXT}`;
 
+// Index blobs written by this client use schema v4: a version line, a
+// "0:<id>:<count>:<size>" summary line, then one 5-part line per child. In v4
+// the blob hash is simply the SHA-256 of the index text.
+const INDEX_SCHEMA_VERSION = "4";
+const ROOT_ENTRY_FLAGS = "80000000";
+const FILE_ENTRY_FLAGS = "0";
+
+// PUT /sync/v3/root is a compare-and-swap on `generation`; the server answers
+// 412 when another device updated the root first. Rebuild and retry a few times.
+const ROOT_UPDATE_ATTEMPTS = 3;
+
+// How many index/blob requests may be in flight at once. Listing a library
+// costs two round trips per document, so running them serially is the main
+// cost of a sync; a handful in parallel is still gentle on the server.
+export const DEFAULT_FETCH_CONCURRENCY = 8;
+
+// Every request goes through RemarkableCloudClient.request, which retries
+// transient failures (dropped connections, timeouts, rate limiting and 5xx
+// gateway errors) with exponential backoff, honouring Retry-After.
+export interface RetryPolicy {
+	/** Total attempts per request, including the first. */
+	maxAttempts: number;
+	/** Delay before the first retry; doubles on each further attempt. */
+	baseDelayMs: number;
+	/** Upper bound for any single delay, including a server's Retry-After. */
+	maxDelayMs: number;
+	/** Give up on a single attempt after this long. */
+	timeoutMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	maxAttempts: 4,
+	baseDelayMs: 1000,
+	maxDelayMs: 30_000,
+	timeoutMs: 120_000,
+};
+
+const RETRYABLE_STATUS = new Set([408, 425, 429, 500, 502, 503, 504]);
+
 // --- Fetch abstraction (native fetch vs Obsidian requestUrl) ---
 
 export interface FetchResponse {
 	ok: boolean;
 	status: number;
+	/** Response headers, if the transport exposes them (used for Retry-After). */
+	headers?: Record<string, string>;
 	text(): Promise<string>;
 	json(): Promise<any>;
 	arrayBuffer(): Promise<ArrayBuffer>;
@@ -31,15 +93,31 @@ export interface FetchResponse {
 export type FetchFn = (url: string, options?: {
 	method?: string;
 	headers?: Record<string, string>;
-	body?: string;
+	body?: string | ArrayBuffer;
+	/** Honoured where the transport supports it; otherwise the request is abandoned. */
+	signal?: AbortSignal;
 }) => Promise<FetchResponse>;
 
+/** Timer functions; `window`'s inside Obsidian so timers survive popouts. */
+export interface Timers {
+	setTimeout(callback: () => void, ms: number): unknown;
+	clearTimeout(id: unknown): void;
+}
+
+// Default: Node's timers, for the CLI and tests
+const defaultTimers: Timers = { setTimeout, clearTimeout };
+
 // Default: use native fetch
 const defaultFetch: FetchFn = async (url, options) => {
 	const resp = await fetch(url, options as RequestInit);
+	const headers: Record<string, string> = {};
+	resp.headers.forEach((value, key) => {
+		headers[key] = value;
+	});
 	return {
 		ok: resp.ok,
 		status: resp.status,
+		headers,
 		text: () => resp.text(),
 		json: () => resp.json(),
 		arrayBuffer: () => resp.arrayBuffer(),
@@ -50,14 +128,71 @@ const defaultFetch: FetchFn = async (url, options) => {
 
 export interface FileOps {
 	readFile(path: string): Promise<string | null>;
+	readBinaryFile(path: string): Promise<Uint8Array | null>;
 	writeFile(path: string, data: string): Promise<void>;
 	writeBinaryFile(path: string, data: Uint8Array): Promise<void>;
 	mkdir(path: string): Promise<void>;
 	exists(path: string): Promise<boolean>;
+	remove(path: string): Promise<void>;
+	/** Move a file, creating the destination's parent folders as needed. */
+	rename(from: string, to: string): Promise<void>;
 }
 
 // --- Token storage ---
 
+/** The claims of a user token that the plugin cares about. */
+export interface TokenClaims {
+	issuedAt: Date | null;
+	expiresAt: Date | null;
+	email: string | null;
+	userId: string | null;
+	scopes: string[];
+	/** "sync15" when the account uses the sync15 (v3) protocol. */
+	syncVersion: "sync15" | "sync10" | null;
+}
+
+// Scopes that mark an account as migrated to sync15.
+const SYNC15_SCOPES = ["sync:fox", "sync:tortoise", "sync:hare"];
+
+// Assumed lifetime of a token whose claims can't be read.
+const DEFAULT_TOKEN_LIFETIME_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Decode the payload of a JWT without verifying it — the server does that;
+ * we only need to know when it expires and whose it is. Returns null for
+ * anything that isn't a readable JWT.
+ */
+export function decodeTokenClaims(token: string): TokenClaims | null {
+	const parts = token.trim().split(".");
+	if (parts.length !== 3) return null;
+	try {
+		const b64 = parts[1].replace(/-/g, "+").replace(/_/g, "/");
+		const binary = atob(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+		const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+		const payload = JSON.parse(new TextDecoder().decode(bytes));
+
+		const profile = payload["auth0-profile"] ?? {};
+		const scopes: string[] = typeof payload.scopes === "string"
+			? payload.scopes.split(/\s+/).filter(Boolean)
+			: [];
+		const toDate = (seconds: unknown) =>
+			typeof seconds === "number" ? new Date(seconds * 1000) : null;
+
+		return {
+			issuedAt: toDate(payload.iat),
+			expiresAt: toDate(payload.exp),
+			email: profile.Email ?? payload.email ?? null,
+			userId: profile.UserID ?? payload.sub ?? null,
+			scopes,
+			syncVersion: scopes.length === 0
+				? null
+				: scopes.some((s) => SYNC15_SCOPES.includes(s)) ? "sync15" : "sync10",
+		};
+	} catch {
+		return null;
+	}
+}
+
 export class TokenStore {
 	deviceToken: string | null = null;
 	userToken: string | null = null;
@@ -65,14 +200,16 @@ export class TokenStore {
 
 	private configDir: string;
 	private fileOps: FileOps;
+	private fileName: string;
 
-	constructor(configDir: string, fileOps: FileOps) {
+	constructor(configDir: string, fileOps: FileOps, fileName = "token.json") {
 		this.configDir = configDir;
 		this.fileOps = fileOps;
+		this.fileName = fileName;
 	}
 
 	get tokenPath(): string {
-		return this.configDir + "/token.json";
+		return this.configDir + "/" + this.fileName;
 	}
 
 	async load(): Promise<void> {
@@ -85,6 +222,9 @@ export class TokenStore {
 			if (parsed.user_token_expiry) {
 				this.userTokenExpiry = new Date(parsed.user_token_expiry);
 			}
+			// Older token files stored a guessed expiry; prefer the token's own.
+			const expiresAt = this.userClaims?.expiresAt;
+			if (expiresAt) this.userTokenExpiry = expiresAt;
 		} catch {
 			// No token file or invalid JSON
 		}
@@ -104,33 +244,65 @@ export class TokenStore {
 		await this.fileOps.writeFile(this.tokenPath, data);
 	}
 
+	/** Decoded claims of the current user token, if it is a readable JWT. */
+	get userClaims(): TokenClaims | null {
+		return this.userToken ? decodeTokenClaims(this.userToken) : null;
+	}
+
+	/** Store a freshly issued user token, taking its expiry from the JWT. */
+	setUserToken(token: string): void {
+		this.userToken = token;
+		this.userTokenExpiry =
+			this.userClaims?.expiresAt ?? new Date(Date.now() + DEFAULT_TOKEN_LIFETIME_MS);
+	}
+
 	isUserTokenValid(): boolean {
 		if (!this.userToken || !this.userTokenExpiry) return false;
-		// 1-hour buffer before expiry
-		const buffer = 60 * 60 * 1000;
+		// Refresh a tenth of the token's lifetime early, between 1 minute and
+		// 1 hour, so short-lived tokens aren't treated as already expired.
+		const issuedAt = this.userClaims?.issuedAt;
+		const lifetime = issuedAt
+			? this.userTokenExpiry.getTime() - issuedAt.getTime()
+			: DEFAULT_TOKEN_LIFETIME_MS;
+		const buffer = Math.min(60 * 60 * 1000, Math.max(60 * 1000, lifetime / 10));
 		return Date.now() < this.userTokenExpiry.getTime() - buffer;
 	}
 }
 
 // --- Document metadata ---
 
+/** What a document is: drawn on the tablet, or an imported PDF or EPUB. */
+export type DocumentFileType = "notebook" | "pdf" | "epub";
+
 export interface DocumentMetadata {
 	id: string;
 	version: number;
 	name: string;
 	parent: string;
 	docType: string;
+	/** Millisecond timestamp; empty for documents from older firmware. */
+	createdTime: string;
 	modifiedTime: string;
 	pinned: boolean;
 	isTrashed: boolean;
 	entryHash: string;
+	fileType: DocumentFileType;
+	/** Document-level tags (page tags are not included). */
+	tags: string[];
 }
 
-function docFromSync15(
+/**
+ * Build DocumentMetadata from a parsed `.metadata` file and, when available,
+ * the `.content` file and the names of the document's files. The formats are
+ * the same in the cloud and in the tablet's xochitl directory.
+ */
+export function docFromSync15(
 	uuid: string,
 	version: number,
 	entryHash: string,
-	metadata: Record<string, any>
+	metadata: Record<string, any>,
+	content: Record<string, any> = {},
+	fileNames: string[] = []
 ): DocumentMetadata {
 	return {
 		id: uuid,
@@ -138,13 +310,37 @@ function docFromSync15(
 		name: metadata.visibleName ?? "Untitled",
 		parent: metadata.parent ?? "",
 		docType: metadata.type ?? "DocumentType",
+		createdTime: metadata.createdTime ?? "",
 		modifiedTime: metadata.lastModified ?? "",
 		pinned: metadata.pinned ?? false,
-		isTrashed: metadata.deleted ?? false,
+		// sync15 moves trashed items under the "trash" parent; older
+		// libraries flag them as deleted instead.
+		isTrashed: (metadata.deleted ?? false) || metadata.parent === "trash",
 		entryHash,
+		fileType: fileTypeOf(content, fileNames),
+		tags: Array.isArray(content.tags)
+			? (content.tags as unknown[]).map(tagName).filter((name): name is string => name !== null)
+			: [],
 	};
 }
 
+// Tags are plain strings in older content files and { name, timestamp }
+// objects in newer ones.
+function tagName(tag: unknown): string | null {
+	if (typeof tag === "string") return tag;
+	if (typeof tag === "object" && tag !== null && "name" in tag && typeof tag.name === "string") return tag.name;
+	return null;
+}
+
+// The content file names the type; the attached original settles it when
+// the content file is missing or older.
+function fileTypeOf(content: Record<string, any>, fileNames: string[]): DocumentFileType {
+	if (content.fileType === "pdf" || content.fileType === "epub") return content.fileType;
+	if (fileNames.some((name) => name.endsWith(".epub"))) return "epub";
+	if (fileNames.some((name) => name.endsWith(".pdf"))) return "pdf";
+	return "notebook";
+}
+
 export function isFolder(doc: DocumentMetadata): boolean {
 	return doc.docType === "CollectionType";
 }
@@ -155,14 +351,76 @@ export function isDocument(doc: DocumentMetadata): boolean {
 
 // --- Cloud client ---
 
-export class RemarkableCloudClient {
+/** A full library listing, identified by the root hash it was built from. */
+export interface RemoteListing {
+	rootHash: string;
+	documents: DocumentMetadata[];
+}
+
+/** Called as each document's index and metadata have been fetched. */
+export type ListProgressCallback = (done: number, total: number) => void;
+
+/** Called with a human-readable line whenever a request is retried. */
+export type RetryCallback = (message: string) => void;
+
+export class RemarkableCloudClient implements DocumentSource {
+	readonly label = "reMarkable cloud";
 	tokens: TokenStore;
+	hosts: CloudHosts = DEFAULT_HOSTS;
+	/** Maximum number of concurrent index/blob fetches. */
+	concurrency = DEFAULT_FETCH_CONCURRENCY;
+	/** Optional on-disk cache consulted before any blob is downloaded. */
+	cache: BlobCache | null = null;
+	retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+	onRetry: RetryCallback | null = null;
+	/** Blob bytes downloaded so far; blobs served by the cache don't count. */
+	bytesFetched = 0;
 	private docFileIndex: Map<string, [string, string][]> = new Map();
+	private entryHashes: Map<string, string> = new Map();
 	private fetchFn: FetchFn;
+	private timers: Timers;
+	private configDir: string;
+	private fileOps: FileOps;
 
-	constructor(configDir: string, fileOps: FileOps, fetchFn?: FetchFn) {
+	constructor(configDir: string, fileOps: FileOps, fetchFn?: FetchFn, timers?: Timers) {
+		this.configDir = configDir;
+		this.fileOps = fileOps;
 		this.tokens = new TokenStore(configDir, fileOps);
 		this.fetchFn = fetchFn ?? defaultFetch;
+		this.timers = timers ?? defaultTimers;
+	}
+
+	/**
+	 * Point the client at another cloud. Each auth host gets its own token
+	 * file, so switching between the official cloud and a self-hosted server
+	 * keeps both registrations. Call init() afterwards to load its tokens.
+	 */
+	setHosts(hosts: CloudHosts): void {
+		this.hosts = hosts;
+		this.tokens = new TokenStore(this.configDir, this.fileOps, tokenFileName(hosts.authHost));
+		this.docFileIndex.clear();
+		this.entryHashes.clear();
+	}
+
+	/**
+	 * Ask the auth host which document-storage host serves this account.
+	 * Returns null when the server doesn't support discovery.
+	 */
+	async discoverSyncHost(): Promise<string | null> {
+		const response = await this.request(
+			`${this.hosts.authHost}${DISCOVERY_PATH}`,
+			"service discovery",
+			{},
+			false
+		);
+		if (!response.ok) return null;
+		try {
+			const body = await response.json();
+			if (body.Status !== "OK" || !body.Host) return null;
+			return normalizeHost(body.Host);
+		} catch {
+			return null;
+		}
 	}
 
 	async init(): Promise<void> {
@@ -174,18 +432,18 @@ export class RemarkableCloudClient {
 	}
 
 	async registerDevice(oneTimeCode: string): Promise<boolean> {
-		const url = `${AUTH_HOST}/token/json/2/device/new`;
+		const url = `${this.hosts.authHost}/token/json/2/device/new`;
 		const payload = {
 			code: oneTimeCode,
 			deviceDesc: "desktop-windows",
 			deviceID: generateUUID(),
 		};
 
-		const response = await this.fetchFn(url, {
+		const response = await this.request(url, "register device", {
 			method: "POST",
 			headers: { "Content-Type": "application/json" },
 			body: JSON.stringify(payload),
-		});
+		}, false, false);
 
 		if (response.ok) {
 			this.tokens.deviceToken = await response.text();
@@ -200,15 +458,14 @@ export class RemarkableCloudClient {
 			throw new Error("No device token. Please register first.");
 		}
 
-		const url = `${AUTH_HOST}/token/json/2/user/new`;
-		const response = await this.fetchFn(url, {
+		const url = `${this.hosts.authHost}/token/json/2/user/new`;
+		const response = await this.request(url, "refresh token", {
 			method: "POST",
 			headers: { Authorization: `Bearer ${this.tokens.deviceToken}` },
-		});
+		}, false);
 
 		if (response.ok) {
-			this.tokens.userToken = await response.text();
-			this.tokens.userTokenExpiry = new Date(Date.now() + 24 * 60 * 60 * 1000);
+			this.tokens.setUserToken(await response.text());
 			await this.tokens.save();
 			return true;
 		}
@@ -228,34 +485,126 @@ export class RemarkableCloudClient {
 		return { Authorization: `Bearer ${this.tokens.userToken}` };
 	}
 
-	private async fetchFile(fileHash: string, filename: string): Promise<Uint8Array> {
-		const url = `${SYNC_HOST}/sync/v3/files/${fileHash}`;
-		const response = await this.fetchFn(url, {
-			headers: { ...this.authHeaders(), [RM_FILENAME_HEADER]: filename },
+	/**
+	 * Send one request through the retry layer. Transient failures are retried
+	 * per `retryPolicy`; a 401 on a user-authenticated call refreshes the user
+	 * token once and retries without counting as an attempt. The body is read
+	 * inside the loop, so a connection dropped mid-download is retried too.
+	 * Non-retryable statuses (and the last retryable one) are returned for the
+	 * caller to interpret. An aborted `init.signal` stops the loop at once,
+	 * including during a retry delay. Calls that must not be repeated once
+	 * the server may have acted on them pass `retry` false and get one
+	 * attempt (plus the token refresh, which the server rejected anyway).
+	 */
+	private async request(
+		url: string,
+		label: string,
+		init: Parameters<FetchFn>[1] = {},
+		userAuth = true,
+		retry = true
+	): Promise<FetchResponse> {
+		const policy = this.retryPolicy;
+		const maxAttempts = retry ? policy.maxAttempts : 1;
+		let refreshed = false;
+
+		for (let attempt = 1; ; attempt++) {
+			throwIfAborted(init.signal);
+			const headers = userAuth ? { ...this.authHeaders(), ...init.headers } : init.headers;
+			let response: FetchResponse | null = null;
+			let failure: string;
+			try {
+				const received = await abortable(
+					withTimeout(this.timers, policy.timeoutMs, init.signal, (signal) =>
+						this.fetchFn(url, { ...init, headers, signal }).then(bufferResponse)
+					),
+					init.signal
+				);
+				response = received;
+				failure = `HTTP ${received.status}`;
+			} catch (e) {
+				if (init.signal?.aborted) throw e;
+				failure = (e as Error).message || String(e);
+			}
+
+			if (response?.status === 401 && userAuth && !refreshed) {
+				refreshed = true;
+				this.onRetry?.(`${label}: HTTP 401, refreshing token and retrying`);
+				await this.ensureAuthenticated(true);
+				attempt--;
+				continue;
+			}
+			if (response && !RETRYABLE_STATUS.has(response.status)) return response;
+
+			if (attempt >= maxAttempts) {
+				if (response) return response;
+				throw new Error(`${label} failed after ${attempt} attempts: ${failure}`);
+			}
+
+			const delayMs = retryDelayMs(response, attempt, policy);
+			this.onRetry?.(
+				`${label}: ${failure}, retrying in ${(delayMs / 1000).toFixed(1)}s ` +
+					`(attempt ${attempt + 1}/${policy.maxAttempts})`
+			);
+			await wait(this.timers, delayMs, init.signal);
+		}
+	}
+
+	private async fetchFile(fileHash: string, filename: string, signal?: AbortSignal): Promise<Uint8Array> {
+		throwIfAborted(signal);
+		const cached = await this.cache?.get(fileHash);
+		if (cached) return cached;
+
+		const url = `${this.hosts.syncHost}/sync/v3/files/${fileHash}`;
+		const response = await this.request(url, `GET ${filename}`, {
+			headers: { [RM_FILENAME_HEADER]: filename },
+			signal,
 		});
 		if (!response.ok) {
 			throw new Error(`Failed to fetch file ${fileHash}: HTTP ${response.status}`);
 		}
-		return new Uint8Array(await response.arrayBuffer());
+		const data = new Uint8Array(await response.arrayBuffer());
+		this.bytesFetched += data.byteLength;
+		await this.cache?.put(fileHash, data);
+		return data;
 	}
 
-	private async fetchRootIndex(): Promise<
-		{ hash: string; flags: string; uuid: string; version: number; size: number }[]
-	> {
-		const url = `${SYNC_HOST}/sync/v3/root`;
-		let response = await this.fetchFn(url, { headers: this.authHeaders() });
-		if (response.status === 401) {
-			// Token rejected by server — force refresh and retry
-			await this.ensureAuthenticated(true);
-			response = await this.fetchFn(url, { headers: this.authHeaders() });
+	private async putFile(fileHash: string, filename: string, data: Uint8Array): Promise<void> {
+		const url = `${this.hosts.syncHost}/sync/v3/files/${fileHash}`;
+		const response = await this.request(url, `PUT ${filename}`, {
+			method: "PUT",
+			headers: {
+				[RM_FILENAME_HEADER]: filename,
+				"Content-Type": "application/octet-stream",
+				"x-goog-hash": `crc32c=${crc32cBase64(data)}`,
+			},
+			body: toArrayBuffer(data),
+		});
+		if (!response.ok) {
+			throw new Error(`Failed to upload file ${filename}: HTTP ${response.status}`);
 		}
+	}
+
+	private async fetchRootPointer(signal?: AbortSignal): Promise<{ hash: string; generation: number }> {
+		const url = `${this.hosts.syncHost}/sync/v3/root`;
+		const response = await this.request(url, "GET root", { signal });
 		if (!response.ok) {
 			throw new Error(`Failed to fetch root: HTTP ${response.status}`);
 		}
 		const root = await response.json();
+		return { hash: root.hash, generation: root.generation ?? 0 };
+	}
+
+	private async fetchRootIndex(signal?: AbortSignal): Promise<
+		{ hash: string; flags: string; uuid: string; version: number; size: number }[]
+	> {
+		const { hash: rootHash } = await this.fetchRootPointer(signal);
+		return this.readRootIndex(rootHash, signal);
+	}
 
-		const rootHash = root.hash;
-		const indexData = await this.fetchFile(rootHash, ROOT_INDEX_FILENAME);
+	private async readRootIndex(rootHash: string, signal?: AbortSignal): Promise<
+		{ hash: string; flags: string; uuid: string; version: number; size: number }[]
+	> {
+		const indexData = await this.fetchFile(rootHash, ROOT_INDEX_FILENAME, signal);
 		const indexText = new TextDecoder().decode(indexData);
 
 		const lines = indexText.trim().split("\n");
@@ -281,8 +630,8 @@ export class RemarkableCloudClient {
 	//   line 1:    schema version (e.g. "4")
 	//   4-part lines: flags:uuid:version:size  → document UUID identifier, skip
 	//   5-part lines: hash:flags:filename:version:size  → actual content file
-	private async fetchDocSubIndex(ref: string, docId: string): Promise<[string, string][]> {
-		const data = await this.fetchFile(ref, `${docId}.${DOC_SCHEMA_EXT}`);
+	private async fetchDocSubIndex(ref: string, docId: string, signal?: AbortSignal): Promise<[string, string][]> {
+		const data = await this.fetchFile(ref, `${docId}.${DOC_SCHEMA_EXT}`, signal);
 		const text = new TextDecoder().decode(data);
 		const files: [string, string][] = [];
 
@@ -299,48 +648,132 @@ export class RemarkableCloudClient {
 		return files;
 	}
 
-	async listDocuments(): Promise<DocumentMetadata[]> {
-		await this.ensureAuthenticated();
+	async listDocuments(onProgress?: ListProgressCallback): Promise<DocumentMetadata[]> {
+		return (await this.fetchListing(null, onProgress)).documents;
+	}
 
-		const entries = await this.fetchRootIndex();
-		const documents: DocumentMetadata[] = [];
+	/**
+	 * List the library, reusing as much of `previous` as the root allows. When
+	 * the root hash is unchanged the previous listing is returned after a single
+	 * request; otherwise only entries whose hash changed have their sub-index
+	 * and .metadata fetched again.
+	 */
+	async fetchListing(
+		previous: RemoteListing | null,
+		onProgress?: ListProgressCallback,
+		signal?: AbortSignal
+	): Promise<RemoteListing> {
+		await this.ensureAuthenticated();
 
-		for (const entry of entries) {
-			const subFiles = await this.fetchDocSubIndex(entry.hash, entry.uuid);
-			this.docFileIndex.set(entry.uuid, subFiles);
+		const { hash: rootHash } = await this.fetchRootPointer(signal);
+		if (previous && previous.rootHash === rootHash) {
+			this.rememberEntryHashes(previous.documents);
+			onProgress?.(previous.documents.length, previous.documents.length);
+			return { rootHash, documents: previous.documents.slice() };
+		}
 
-			let metadata: Record<string, any> = {};
-			for (const [filename, fileHash] of subFiles) {
-				if (filename.endsWith(".metadata")) {
-					const metaData = await this.fetchFile(fileHash, filename);
-					metadata = JSON.parse(new TextDecoder().decode(metaData));
-					break;
+		const entries = await this.readRootIndex(rootHash, signal);
+		const known = new Map<string, DocumentMetadata>();
+		for (const doc of previous?.documents ?? []) known.set(doc.id, doc);
+
+		// Each entry needs its sub-index and then its .metadata and .content
+		// blobs (the content file carries the type and tags); the sub-index
+		// comes first, so they run back to back inside one pool slot.
+		const documents = await mapConcurrent(
+			entries,
+			this.concurrency,
+			async (entry) => {
+				const unchanged = known.get(entry.uuid);
+				if (unchanged && unchanged.entryHash === entry.hash) return unchanged;
+
+				const subFiles = await this.fetchDocSubIndex(entry.hash, entry.uuid, signal);
+				this.docFileIndex.set(entry.uuid, subFiles);
+
+				let metadata: Record<string, any> = {};
+				let content: Record<string, any> = {};
+				for (const [filename, fileHash] of subFiles) {
+					if (filename.endsWith(".metadata")) {
+						const metaData = await this.fetchFile(fileHash, filename, signal);
+						metadata = JSON.parse(new TextDecoder().decode(metaData));
+					} else if (filename.endsWith(".content")) {
+						content = parseJsonOrEmpty(await this.fetchFile(fileHash, filename, signal));
+					}
 				}
-			}
 
-			documents.push(
-				docFromSync15(entry.uuid, entry.version, entry.hash, metadata)
-			);
-		}
+				return docFromSync15(
+					entry.uuid,
+					entry.version,
+					entry.hash,
+					metadata,
+					content,
+					subFiles.map(([filename]) => filename)
+				);
+			},
+			onProgress
+		);
+		await this.cache?.flush();
 
-		return documents;
+		this.rememberEntryHashes(documents);
+		return { rootHash, documents };
+	}
+
+	// Entry hashes from the latest listing let downloadDocument go straight to
+	// a document's sub-index when it was reused rather than refetched.
+	private rememberEntryHashes(documents: DocumentMetadata[]): void {
+		for (const doc of documents) this.entryHashes.set(doc.id, doc.entryHash);
 	}
 
 	/**
-	 * Download every blob that makes up a document and return them keyed by
-	 * their logical filename. Returning a plain map (instead of a packed ZIP)
-	 * keeps the runtime dependency-free — the converter reads the files
-	 * directly without unzipping.
+	 * Download every blob that makes up a document (or those whose filename
+	 * `include` accepts) and return them keyed by their logical filename.
+	 * Returning a plain map (instead of a packed ZIP) keeps the runtime
+	 * dependency-free — the converter reads the files directly without
+	 * unzipping.
 	 */
-	async downloadDocument(docId: string): Promise<Map<string, Uint8Array>> {
+	async downloadDocument(
+		docId: string,
+		signal?: AbortSignal,
+		include?: (filename: string) => boolean
+	): Promise<Map<string, Uint8Array>> {
+		const subFiles = (await this.documentFileIndex(docId, signal)).filter(
+			([filename]) => !include || include(filename)
+		);
+		const blobs = await mapConcurrent(subFiles, this.concurrency, ([filename, fileHash]) =>
+			this.fetchFile(fileHash, filename, signal)
+		);
+
+		await this.cache?.flush();
+
+		const files = new Map<string, Uint8Array>();
+		subFiles.forEach(([filename], i) => files.set(filename, blobs[i]));
+		return files;
+	}
+
+	/** Blob hashes come straight from the document's index; no blob is fetched. */
+	async fileHashes(
+		docId: string,
+		signal?: AbortSignal,
+		include?: (filename: string) => boolean
+	): Promise<Map<string, string>> {
+		const index = await this.documentFileIndex(docId, signal);
+		return new Map(include ? index.filter(([name]) => include(name)) : index);
+	}
+
+	// [filename, blob hash] pairs of a document, from its sub-index.
+	private async documentFileIndex(docId: string, signal?: AbortSignal): Promise<[string, string][]> {
 		await this.ensureAuthenticated();
 
+		const entryHash = this.entryHashes.get(docId);
+		if (!this.docFileIndex.has(docId) && entryHash) {
+			this.docFileIndex.set(docId, await this.fetchDocSubIndex(entryHash, docId, signal));
+		}
+
 		if (!this.docFileIndex.has(docId)) {
-			const entries = await this.fetchRootIndex();
+			const entries = await this.fetchRootIndex(signal);
 			let found = false;
 			for (const entry of entries) {
 				if (entry.uuid === docId) {
-					const subFiles = await this.fetchDocSubIndex(entry.hash, entry.uuid);
+					const subFiles = await this.fetchDocSubIndex(entry.hash, entry.uuid, signal);
 					this.docFileIndex.set(docId, subFiles);
 					found = true;
 					break;
@@ -349,17 +782,148 @@ export class RemarkableCloudClient {
 			if (!found) throw new Error(`Document not found: ${docId}`);
 		}
 
-		const subFiles = this.docFileIndex.get(docId)!;
-		const files = new Map<string, Uint8Array>();
+		return this.docFileIndex.get(docId)!;
+	}
+
+	/**
+	 * Upload a PDF or EPUB as a new top-level document (or into `parent`, a
+	 * folder id). Writes the content, .metadata and .content blobs, the
+	 * document's .docSchema index, and finally swaps a new root index in.
+	 * Returns the new document id.
+	 */
+	async uploadDocument(
+		name: string,
+		data: Uint8Array,
+		fileType: UploadFileType,
+		parent = ""
+	): Promise<string> {
+		await this.ensureAuthenticated();
 
-		for (const [filename, fileHash] of subFiles) {
-			files.set(filename, await this.fetchFile(fileHash, filename));
+		const docId = generateUUID();
+		const now = String(Date.now());
+		const encoder = new TextEncoder();
+
+		const metadata = {
+			createdTime: now,
+			lastModified: now,
+			lastOpened: "0",
+			lastOpenedPage: 0,
+			parent,
+			pinned: false,
+			type: "DocumentType",
+			visibleName: name,
+		};
+		const content = {
+			coverPageNumber: 0,
+			extraMetadata: {},
+			fileType,
+			formatVersion: 1,
+			lineHeight: -1,
+			margins: 125,
+			orientation: "portrait",
+			pageCount: 0,
+			pages: [],
+			sizeInBytes: String(data.byteLength),
+			tags: [],
+			textAlignment: "left",
+			textScale: 1,
+		};
+
+		const blobs: [string, Uint8Array][] = [
+			[`${docId}.${fileType}`, data],
+			[`${docId}.metadata`, encoder.encode(JSON.stringify(metadata))],
+			[`${docId}.content`, encoder.encode(JSON.stringify(content))],
+		];
+
+		const children: IndexEntry[] = [];
+		for (const [filename, blob] of blobs) {
+			const hash = await sha256Hex(blob);
+			await this.putFile(hash, filename, blob);
+			children.push({ hash, flags: FILE_ENTRY_FLAGS, id: filename, count: 0, size: blob.byteLength });
 		}
 
-		return files;
+		const docIndex = encoder.encode(buildIndex(docId, children));
+		const docHash = await sha256Hex(docIndex);
+		await this.putFile(docHash, `${docId}.${DOC_SCHEMA_EXT}`, docIndex);
+
+		const totalSize = children.reduce((sum, c) => sum + c.size, 0);
+		await this.addRootEntry({
+			hash: docHash,
+			flags: ROOT_ENTRY_FLAGS,
+			id: docId,
+			count: children.length,
+			size: totalSize,
+		});
+
+		this.docFileIndex.set(docId, children.map((c) => [c.id, c.hash]));
+		return docId;
+	}
+
+	// Add (or replace) one entry in the root index and publish it. The root
+	// pointer update is conditional on the generation we read, so a concurrent
+	// change from the tablet makes the server reject ours and we start over from
+	// the fresh root instead of clobbering it.
+	private async addRootEntry(entry: IndexEntry): Promise<void> {
+		for (let attempt = 1; attempt <= ROOT_UPDATE_ATTEMPTS; attempt++) {
+			// The index must be the one the pointer names, so the conditional
+			// update below replaces exactly what we read.
+			const pointer = await this.fetchRootPointer();
+			const current = await this.readRootIndex(pointer.hash);
+
+			const entries: IndexEntry[] = current
+				.filter((e) => e.uuid !== entry.id)
+				.map((e) => ({ hash: e.hash, flags: e.flags, id: e.uuid, count: e.version, size: e.size }));
+			entries.push(entry);
+
+			const rootIndex = new TextEncoder().encode(buildIndex(".", entries));
+			const rootHash = await sha256Hex(rootIndex);
+			await this.putFile(rootHash, ROOT_INDEX_FILENAME, rootIndex);
+
+			// Not retried automatically: the update isn't idempotent, and a
+			// 412 already starts the round again from a fresh root.
+			const response = await this.request(`${this.hosts.syncHost}/sync/v3/root`, "PUT root", {
+				method: "PUT",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({
+					broadcast: true,
+					generation: pointer.generation,
+					hash: rootHash,
+				}),
+			}, true, false);
+			if (response.ok) return;
+			if (response.status !== 412) {
+				throw new Error(`Failed to update root: HTTP ${response.status}`);
+			}
+		}
+		throw new Error("Failed to update root: the cloud library kept changing, try again later");
 	}
 }
 
+// --- Index writing ---
+
+export type UploadFileType = "pdf" | "epub";
+
+interface IndexEntry {
+	hash: string;
+	flags: string;
+	id: string;
+	count: number;
+	size: number;
+}
+
+// Serialise a schema v4 index. Entries are sorted by id so the same set of
+// children always produces the same text — and therefore the same hash.
+function buildIndex(id: string, entries: IndexEntry[]): string {
+	const sorted = [...entries].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+	const totalSize = sorted.reduce((sum, e) => sum + e.size, 0);
+	const lines = [
+		INDEX_SCHEMA_VERSION,
+		`0:${id}:${sorted.length}:${totalSize}`,
+		...sorted.map((e) => `${e.hash}:${e.flags}:${e.id}:${e.count}:${e.size}`),
+	];
+	return lines.join("\n") + "\n";
+}
+
 // --- Folder tree ---
 
 export function buildFolderTree(
@@ -400,6 +964,177 @@ export function buildFolderTree(
 
 // --- Utilities ---
 
+/** Parse a JSON object file; {} when it is missing, empty or malformed. */
+export function parseJsonOrEmpty(data: Uint8Array | null): Record<string, any> {
+	if (!data) return {};
+	try {
+		const parsed = JSON.parse(new TextDecoder().decode(data));
+		return parsed && typeof parsed === "object" ? parsed : {};
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * Normalise a user-entered host to "scheme://host[:port][/path]" without a
+ * trailing slash, defaulting to https. Returns null if it isn't a usable URL.
+ */
+export function normalizeHost(value: string): string | null {
+	let host = value.trim();
+	if (!host) return null;
+	if (!/^https?:\/\//i.test(host)) host = `https://${host}`;
+	host = host.replace(/\/+$/, "");
+	try {
+		const url = new URL(host);
+		return url.hostname ? host : null;
+	} catch {
+		return null;
+	}
+}
+
+// The official cloud keeps the historical "token.json"; any other auth host
+// gets a file named after it.
+function tokenFileName(authHost: string): string {
+	if (authHost === AUTH_HOST) return "token.json";
+	const slug = authHost
+		.replace(/^https?:\/\//i, "")
+		.replace(/[^a-z0-9.-]+/gi, "_")
+		.toLowerCase();
+	return `token-${slug}.json`;
+}
+
+// Read the whole body up front so a failure while streaming it surfaces inside
+// the retry loop rather than later in the caller.
+async function bufferResponse(response: FetchResponse): Promise<FetchResponse> {
+	const body = await response.arrayBuffer();
+	const text = () => new TextDecoder().decode(body);
+	return {
+		ok: response.ok,
+		status: response.status,
+		headers: response.headers,
+		text: async () => text(),
+		json: async () => JSON.parse(text()),
+		arrayBuffer: async () => body,
+	};
+}
+
+// Exponential backoff with jitter, unless the server said how long to wait.
+function retryDelayMs(response: FetchResponse | null, attempt: number, policy: RetryPolicy): number {
+	const retryAfter = response ? parseRetryAfter(headerValue(response, "retry-after")) : null;
+	if (retryAfter !== null) return Math.min(retryAfter, policy.maxDelayMs);
+	const backoff = policy.baseDelayMs * 2 ** (attempt - 1);
+	return Math.min(backoff * (0.5 + Math.random() / 2), policy.maxDelayMs);
+}
+
+function headerValue(response: FetchResponse, name: string): string | null {
+	for (const [key, value] of Object.entries(response.headers ?? {})) {
+		if (key.toLowerCase() === name) return value;
+	}
+	return null;
+}
+
+// Retry-After is either a number of seconds or an HTTP date.
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+	if (!value) return null;
+	const seconds = Number(value.trim());
+	if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+function startTimer(timers: Timers, callback: () => void, ms: number): () => void {
+	const id = timers.setTimeout(callback, ms);
+	return () => timers.clearTimeout(id);
+}
+
+// An aborted `signal` rejects at once and clears the timer.
+function wait(timers: Timers, ms: number, signal?: AbortSignal): Promise<void> {
+	throwIfAborted(signal);
+	return new Promise((resolve, reject) => {
+		const onAbort = () => {
+			cancel();
+			reject(new Error(CANCELLED_MESSAGE));
+		};
+		const cancel = startTimer(
+			timers,
+			() => {
+				signal?.removeEventListener("abort", onAbort);
+				resolve();
+			},
+			ms
+		);
+		signal?.addEventListener("abort", onAbort);
+	});
+}
+
+// Run one attempt with a signal of its own, aborted when the attempt times
+// out or `outer` aborts, so the transport drops the connection instead of
+// leaving it open behind the retry.
+function withTimeout<T>(
+	timers: Timers,
+	ms: number,
+	outer: AbortSignal | undefined,
+	run: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+	const controller = new AbortController();
+	const stop = () => controller.abort();
+	outer?.addEventListener("abort", stop);
+	return new Promise<T>((resolve, reject) => {
+		const cancel = startTimer(
+			timers,
+			() => {
+				controller.abort();
+				reject(new Error(`Request timed out after ${ms / 1000}s`));
+			},
+			ms
+		);
+		run(controller.signal)
+			.then(resolve, reject)
+			.finally(() => {
+				cancel();
+				outer?.removeEventListener("abort", stop);
+			});
+	});
+}
+
+export async function sha256Hex(data: Uint8Array): Promise<string> {
+	const digest = await crypto.subtle.digest("SHA-256", toArrayBuffer(data));
+	return Array.from(new Uint8Array(digest))
+		.map((b) => b.toString(16).padStart(2, "0"))
+		.join("");
+}
+
+let crc32cTable: Uint32Array | null = null;
+
+// CRC-32C (Castagnoli), sent base64-encoded big-endian in `x-goog-hash` so the
+// blob store can verify uploads.
+function crc32cBase64(data: Uint8Array): string {
+	if (!crc32cTable) {
+		crc32cTable = new Uint32Array(256);
+		for (let n = 0; n < 256; n++) {
+			let c = n;
+			for (let k = 0; k < 8; k++) {
+				c = c & 1 ? 0x82f63b78 ^ (c >>> 1) : c >>> 1;
+			}
+			crc32cTable[n] = c >>> 0;
+		}
+	}
+	let crc = 0xffffffff;
+	for (let i = 0; i < data.length; i++) {
+		crc = crc32cTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+	}
+	crc = (crc ^ 0xffffffff) >>> 0;
+	return btoa(String.fromCharCode(crc >>> 24, (crc >>> 16) & 0xff, (crc >>> 8) & 0xff, crc & 0xff));
+}
+
+// Copy a Uint8Array view into a standalone ArrayBuffer (see main.ts).
+function toArrayBuffer(data: Uint8Array): ArrayBuffer {
+	return data.buffer.slice(
+		data.byteOffset,
+		data.byteOffset + data.byteLength
+	) as ArrayBuffer;
+}
+
 function generateUUID(): string {
 	// crypto.randomUUID available in Node 19+ and modern browsers
 	if (typeof crypto !== "undefined" && crypto.randomUUID) {
@@ -0,0 +1,93 @@
+/**
+ * Unit tests for the bounded worker pool used by the cloud client.
+ *
+ * Run: npx tsx --test src/concurrency.test.ts
+ */
+import test from "node:test";
+import assert from "node:assert/strict";
+import { abortable, createLimiter, mapConcurrent } from "./concurrency";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test("results keep input order even when later items finish first", async () => {
+	const delays = [30, 5, 20, 0, 10];
+	const out = await mapConcurrent(delays, 3, async (ms, i) => {
+		await sleep(ms);
+		return i * 10;
+	});
+	assert.deepEqual(out, [0, 10, 20, 30, 40]);
+});
+
+test("never runs more than `limit` calls at once", async () => {
+	let inFlight = 0;
+	let peak = 0;
+	await mapConcurrent(Array.from({ length: 20 }, (_, i) => i), 4, async () => {
+		inFlight++;
+		peak = Math.max(peak, inFlight);
+		await sleep(2);
+		inFlight--;
+	});
+	assert.equal(peak, 4);
+});
+
+test("reports progress once per item", async () => {
+	const seen: [number, number][] = [];
+	await mapConcurrent([1, 2, 3], 2, async (x) => x, (done, total) => seen.push([done, total]));
+	assert.deepEqual(seen, [
+		[1, 3],
+		[2, 3],
+		[3, 3],
+	]);
+});
+
+test("the first failure is rethrown and stops new work", async () => {
+	const started: number[] = [];
+	await assert.rejects(
+		() =>
+			mapConcurrent([0, 1, 2, 3, 4, 5], 1, async (x) => {
+				started.push(x);
+				if (x === 2) throw new Error("boom");
+				return x;
+			}),
+		/boom/
+	);
+	assert.deepEqual(started, [0, 1, 2]);
+});
+
+test("an empty input resolves to an empty array", async () => {
+	assert.deepEqual(await mapConcurrent([], 8, async () => 1), []);
+});
+
+test("a limiter runs queued calls in order within its limit", async () => {
+	const limit = createLimiter(2);
+	const started: number[] = [];
+	let inFlight = 0;
+	let peak = 0;
+	const calls = [20, 5, 10, 0].map((ms, i) =>
+		limit(async () => {
+			started.push(i);
+			inFlight++;
+			peak = Math.max(peak, inFlight);
+			await sleep(ms);
+			inFlight--;
+			if (i === 2) throw new Error("boom");
+			return i;
+		})
+	);
+	const settled = await Promise.allSettled(calls);
+	assert.deepEqual(started, [0, 1, 2, 3]);
+	assert.equal(peak, 2);
+	assert.deepEqual(settled.map((r) => r.status), ["fulfilled", "fulfilled", "rejected", "fulfilled"]);
+	// A failed call frees its slot like any other.
+	assert.equal(await limit(async () => "after"), "after");
+});
+
+test("abortable rejects as soon as the signal aborts", async () => {
+	const controller = new AbortController();
+	const slow = sleep(1000).then(() => "done");
+	const pending = abortable(slow, controller.signal);
+	controller.abort();
+	await assert.rejects(pending, /Cancelled/);
+	await assert.rejects(abortable(Promise.resolve(1), controller.signal), /Cancelled/);
+	assert.equal(await abortable(Promise.resolve(2), new AbortController().signal), 2);
+});
@@ -0,0 +1,119 @@
+/**
+ * Concurrency helpers
+ *
+ * A small bounded worker pool for the network-heavy parts of a sync, the
+ * limiters that bound each stage of the document pipeline, and the
+ * AbortSignal helpers that let a sync be cancelled. Pure TypeScript — no
+ * Obsidian deps.
+ */
+
+/**
+ * Map `items` through `fn` with at most `limit` calls in flight. Results are
+ * returned in input order regardless of completion order, so callers get the
+ * same output as a sequential loop. `onSettled` fires once per item as it
+ * finishes, with the running count, for progress reporting.
+ *
+ * The first rejection stops new work from being started and is rethrown once
+ * the in-flight calls have settled.
+ */
+export async function mapConcurrent<T, R>(
+	items: readonly T[],
+	limit: number,
+	fn: (item: T, index: number) => Promise<R>,
+	onSettled?: (done: number, total: number) => void
+): Promise<R[]> {
+	const results = new Array<R>(items.length);
+	const workerCount = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+	let next = 0;
+	let done = 0;
+	let failed = false;
+	let error: unknown;
+
+	const worker = async (): Promise<void> => {
+		while (!failed && next < items.length) {
+			const index = next++;
+			try {
+				results[index] = await fn(items[index], index);
+			} catch (e) {
+				if (!failed) {
+					failed = true;
+					error = e;
+				}
+				return;
+			}
+			done++;
+			onSettled?.(done, items.length);
+		}
+	};
+
+	const workers: Promise<void>[] = [];
+	for (let i = 0; i < workerCount; i++) workers.push(worker());
+	await Promise.all(workers);
+
+	if (failed) throw error;
+	return results;
+}
+
+/** Runs the function it is given once one of its slots is free. */
+export type Limiter = <T>(fn: () => Promise<T>) => Promise<T>;
+
+/**
+ * A limiter that runs at most `limit` calls at once, starting queued calls
+ * in the order they were made. Unlike mapConcurrent it takes work as it
+ * comes, so several limiters can bound the stages of one pipeline.
+ */
+export function createLimiter(limit: number): Limiter {
+	const slots = Math.max(1, Math.floor(limit) || 1);
+	const queue: (() => void)[] = [];
+	let active = 0;
+
+	const release = () => {
+		active--;
+		const next = queue.shift();
+		if (next) next();
+	};
+
+	return <T>(fn: () => Promise<T>): Promise<T> =>
+		new Promise<T>((resolve, reject) => {
+			const run = () => {
+				active++;
+				Promise.resolve().then(fn).then(resolve, reject).then(release, release);
+			};
+			if (active < slots) run();
+			else queue.push(run);
+		});
+}
+
+// --- Cancellation ---
+
+/** Message of the error thrown when an AbortSignal cancels the work. */
+export const CANCELLED_MESSAGE = "Cancelled";
+
+/** Throw if `signal` has been aborted; a no-op without a signal. */
+export function throwIfAborted(signal?: AbortSignal): void {
+	if (signal?.aborted) throw new Error(CANCELLED_MESSAGE);
+}
+
+/**
+ * Settle with `promise`, or reject as soon as `signal` aborts. The
+ * underlying work is abandoned rather than stopped, which is all a transport
+ * without abort support (such as Obsidian's requestUrl) allows.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+	if (!signal) return promise;
+	if (signal.aborted) return Promise.reject(new Error(CANCELLED_MESSAGE));
+	return new Promise((resolve, reject) => {
+		const onAbort = () => reject(new Error(CANCELLED_MESSAGE));
+		signal.addEventListener("abort", onAbort);
+		promise.then(
+			(value) => {
+				signal.removeEventListener("abort", onAbort);
+				resolve(value);
+			},
+			(error) => {
+				signal.removeEventListener("abort", onAbort);
+				reject(error);
+			}
+		);
+	});
+}
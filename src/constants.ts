@@ -14,5 +14,17 @@ export const AUTH_URL = "https://my.remarkable.com/device/desktop/connect";
 // The leading underscore keeps it sorted to the top and signals it is special.
 export const SYNC_LOG_FILENAME = "_reMarkable Sync Log.md";
 
+// Folder (inside the sync subfolder) that receives the PDFs of documents
+// deleted on the tablet, or left out of the sync, when the removal policy is
+// "archive".
+export const ARCHIVE_FOLDER = "_Archive";
+
+// Machine-readable companion of the sync log: the same runs as JSON, for
+// tracking syncs across machines.
+export const SYNC_REPORT_FILENAME = "_reMarkable Sync Report.json";
+
+// Runs kept in the sync log and the JSON report; older runs are dropped whole.
+export const SYNC_LOG_HISTORY = 20;
+
 // Cap the on-disk log so it can't grow without bound across many sync runs.
 export const SYNC_LOG_MAX_BYTES = 250_000;
@@ -1,7 +1,7 @@
 /**
  * Tests for the document converter.
  *
- * Covers two regression areas:
+ * Covers two regression areas, plus rendering and splicing single pages:
  *   - Content-driven page-height extension (long / vertically-scrolled pages
  *     were clipped because extension was gated behind optional metadata and
  *     ignored typed text).
@@ -13,7 +13,12 @@
 import test from "node:test";
 import assert from "node:assert/strict";
 import { PDFDocument } from "pdf-lib";
-import { convertDocument, extendPageHeightForContent } from "./document-converter";
+import {
+	convertDocument,
+	convertPages,
+	extendPageHeightForContent,
+	splicePdfPages,
+} from "./document-converter";
 import { computeTextBlocksBottomRawY } from "./pdf-renderer";
 import type { Page, Stroke, TextBlock } from "./rm-parser";
 
@@ -220,3 +225,40 @@ test("un-annotated multi-page PDF converts every page", async () => {
 		[612, 792],
 	]);
 });
+
+// --- Page updates ---
+
+function pageSizes(pdf: PDFDocument): number[][] {
+	return pdf.getPages().map((p) => {
+		const s = p.getSize();
+		return [Math.round(s.width), Math.round(s.height)];
+	});
+}
+
+test("single pages render on their own background page and splice into a PDF", async () => {
+	const files = await unannotatedPdfArchive("doc3", [
+		[612, 792],
+		[595, 842],
+		[300, 400],
+	]);
+	const full = await convertDocument("doc3", files);
+
+	const rendered = await convertPages("doc3", files, [2, 0]);
+	assert.deepEqual(pageSizes(await PDFDocument.load(rendered)), [
+		[300, 400],
+		[612, 792],
+	]);
+
+	const spliced = await splicePdfPages(full, rendered, [
+		{ from: "rendered", index: 1 },
+		{ from: "existing", index: 1 },
+		{ from: "rendered", index: 0 },
+	]);
+	assert.deepEqual(pageSizes(await PDFDocument.load(spliced)), [
+		[612, 792],
+		[595, 842],
+		[300, 400],
+	]);
+	await assert.rejects(convertPages("doc3", files, [3]), /Page 4 not found/);
+	await assert.rejects(splicePdfPages(full, null, [{ from: "rendered", index: 0 }]), /Cannot splice/);
+});
@@ -1,20 +1,30 @@
 /**
  * Document Converter
  *
- * Full pipeline from reMarkable ZIP archive to PDF:
- * 1. Extract .rm files and metadata from ZIP
+ * Full pipeline from a reMarkable document's files to PDF:
+ * 1. Collect .rm files and metadata from the file map (downloaded from the
+ *    cloud, read from a xochitl folder, or unpacked from a .rmdoc/.zip export)
  * 2. Parse .rm files to get strokes and text
  * 3. Render to PDF with optional background
  */
 
 import { PDFDocument } from "pdf-lib";
 import { parseRmFile, type Page } from "./rm-parser";
+import { readZip } from "./zip-reader";
+import { throwIfAborted } from "./concurrency";
 import {
 	renderPageToPdf,
 	renderNotebookToPdf,
 	computeTextBlocksBottomRawY,
 } from "./pdf-renderer";
 
+/**
+ * Version of the .rm → PDF output. Bump it whenever a parser or renderer
+ * change alters the PDFs produced: documents synced by an older version are
+ * then re-rendered on the next sync.
+ */
+export const RENDERER_VERSION = 1;
+
 // --- Data structures ---
 
 export interface PageInfo {
@@ -78,7 +88,8 @@ export class DocumentConverter {
 		return this.content;
 	}
 
-	async convertToPdf(): Promise<Uint8Array> {
+	/** Render every page; an aborted `signal` stops between pages. */
+	async convertToPdf(signal?: AbortSignal): Promise<Uint8Array> {
 		const content = await this.parse();
 
 		if (content.pages.length === 0) {
@@ -87,11 +98,30 @@ export class DocumentConverter {
 					`Documents with no rendered pages cannot be converted to PDF.`
 			);
 		}
+		return this.renderPages(content.pages.map((_, i) => i), signal);
+	}
 
+	/**
+	 * Render only the pages at `indices`, in that order, each on the same
+	 * background page as in a full render. Files of the other pages need not
+	 * be present.
+	 */
+	async convertPagesToPdf(indices: number[], signal?: AbortSignal): Promise<Uint8Array> {
+		const content = await this.parse();
+		const missing = indices.find((i) => i < 0 || i >= content.pages.length);
+		if (missing !== undefined) {
+			throw new Error(`Page ${missing + 1} not found in document (${content.pages.length} pages)`);
+		}
+		return this.renderPages(indices, signal);
+	}
+
+	private async renderPages(indices: number[], signal?: AbortSignal): Promise<Uint8Array> {
+		const content = await this.parse();
 		const parsedPages: Page[] = [];
 		const backgroundPdfs: (Uint8Array | null)[] = [];
 
-		for (let i = 0; i < content.pages.length; i++) {
+		for (const i of indices) {
+			throwIfAborted(signal);
 			const pageInfo = content.pages[i];
 
 			if (pageInfo.rmData) {
@@ -180,19 +210,14 @@ export class DocumentConverter {
 		fileList: string[],
 		contentInfo: Record<string, any>
 	): PageInfo[] {
-		let pageIds: string[] = contentInfo.pages ?? [];
+		const pageIds = contentPageIds(contentInfo);
 
-		// Check cPages (newer format) and extract per-page metadata
-		const cPages = contentInfo.cPages;
+		// Per-page metadata of the newer cPages format
 		const pageVerticalScroll = new Map<string, number>();
-		if (cPages && cPages.pages) {
-			pageIds = cPages.pages.map((p: any) => {
-				const id = typeof p === "object" ? p.id ?? p : p;
-				if (typeof p === "object" && p.verticalScroll?.value != null) {
-					pageVerticalScroll.set(id, p.verticalScroll.value);
-				}
-				return id;
-			});
+		for (const p of contentInfo.cPages?.pages ?? []) {
+			if (typeof p === "object" && p.verticalScroll?.value != null) {
+				pageVerticalScroll.set(p.id ?? p, p.verticalScroll.value);
+			}
 		}
 
 		// Fallback: scan for .rm files
@@ -341,10 +366,107 @@ function emptyPage(pageId: string): Page {
 	};
 }
 
+/**
+ * Page ids in order as listed by a document's .content (the newer cPages
+ * format first); empty when it lists none, in which case the converter falls
+ * back to the .rm files present.
+ */
+export function contentPageIds(contentInfo: Record<string, any>): string[] {
+	const cPages = contentInfo.cPages;
+	if (cPages && cPages.pages) {
+		return cPages.pages.map((p: any) => (typeof p === "object" ? p.id ?? p : p));
+	}
+	return [...(contentInfo.pages ?? [])];
+}
+
+/** Logical filename of a page's strokes, as the cloud and xochitl name it. */
+export function pageFileName(docId: string, pageId: string): string {
+	return `${docId}/${pageId}.rm`;
+}
+
 export async function convertDocument(
 	docId: string,
-	files: Map<string, Uint8Array>
+	files: Map<string, Uint8Array>,
+	signal?: AbortSignal
 ): Promise<Uint8Array> {
 	const converter = new DocumentConverter(docId, files);
-	return converter.convertToPdf();
+	return converter.convertToPdf(signal);
+}
+
+/** Render only the pages at `indices` of a document; see convertPagesToPdf. */
+export async function convertPages(
+	docId: string,
+	files: Map<string, Uint8Array>,
+	indices: number[],
+	signal?: AbortSignal
+): Promise<Uint8Array> {
+	const converter = new DocumentConverter(docId, files);
+	return converter.convertPagesToPdf(indices, signal);
+}
+
+/** Where a page of a spliced PDF comes from: an index into either input. */
+export interface SplicedPage {
+	from: "existing" | "rendered";
+	index: number;
+}
+
+/**
+ * Assemble a PDF from pages of a previously rendered PDF and freshly
+ * rendered ones, so a small edit re-renders only the pages it touched.
+ */
+export async function splicePdfPages(
+	existing: Uint8Array,
+	rendered: Uint8Array | null,
+	pages: SplicedPage[]
+): Promise<Uint8Array> {
+	const existingDoc = await PDFDocument.load(existing);
+	const renderedDoc = rendered ? await PDFDocument.load(rendered) : null;
+	const outputDoc = await PDFDocument.create();
+
+	for (const page of pages) {
+		const source = page.from === "existing" ? existingDoc : renderedDoc;
+		if (!source || page.index >= source.getPageCount()) {
+			throw new Error(`Cannot splice page ${page.index + 1} of the ${page.from} PDF`);
+		}
+		const [copied] = await outputDoc.copyPages(source, [page.index]);
+		outputDoc.addPage(copied);
+	}
+	return outputDoc.save();
+}
+
+/**
+ * Convert a .rmdoc or .zip export. The document id is taken from the archive's
+ * `<uuid>.content` (or `.metadata`) entry, which both export formats include.
+ */
+export async function convertArchive(archive: Uint8Array): Promise<Uint8Array> {
+	const files = await readZip(archive);
+	const docId = archiveDocumentId(files);
+	if (!docId) {
+		throw new Error("Not a reMarkable archive: no .content or .metadata file found");
+	}
+	return convertDocument(docId, files);
+}
+
+/**
+ * The PDF or EPUB a document was imported from, as stored alongside its
+ * annotations; null for notebooks. `extension` includes the dot.
+ */
+export function originalFile(
+	docId: string,
+	files: Map<string, Uint8Array>
+): { data: Uint8Array; extension: ".pdf" | ".epub" } | null {
+	for (const extension of [".pdf", ".epub"] as const) {
+		const data = files.get(`${docId}${extension}`);
+		if (data) return { data, extension };
+	}
+	return null;
+}
+
+function archiveDocumentId(files: Map<string, Uint8Array>): string | null {
+	for (const ext of [".content", ".metadata"]) {
+		for (const name of files.keys()) {
+			if (name.endsWith(ext) && !name.includes("/")) return name.slice(0, -ext.length);
+		}
+	}
+	return null;
 }
@@ -0,0 +1,167 @@
+/**
+ * Unit tests for the local xochitl folder source.
+ *
+ * The mock cloud's reference library is laid out as a tablet's xochitl
+ * directory in memory, so local and cloud loads can be compared file by file.
+ *
+ * Run: npx tsx --test src/document-source.test.ts
+ */
+import test from "node:test";
+import { createHash } from "crypto";
+import assert from "node:assert/strict";
+import type { FileOps } from "./cloud-client";
+import { XochitlFolderSource, type DirectoryOps } from "./document-source";
+import { loadReferenceLibrary } from "./mock-cloud";
+import { SyncManager, SyncState } from "./sync-manager";
+
+const ROOT = "/backup/xochitl";
+const PAGES_DOC = "b7d19d8b-8ecc-43a8-a79e-c024c29eab11";
+
+/** The reference library as a xochitl tree, plus DirectoryOps over it. */
+function xochitlTree(): { dirOps: DirectoryOps; files: Map<string, Uint8Array> } {
+	const files = new Map<string, Uint8Array>();
+	for (const doc of loadReferenceLibrary().documents.values()) {
+		for (const [name, data] of doc.files) files.set(`${ROOT}/${name}`, data);
+	}
+	const dirOps: DirectoryOps = {
+		readBinaryFile: async (p) => files.get(p) ?? null,
+		list: async (dir) => {
+			const result = { files: [] as string[], folders: [] as string[] };
+			for (const p of files.keys()) {
+				if (!p.startsWith(dir + "/")) continue;
+				const rest = p.substring(dir.length + 1).split("/");
+				const bucket = rest.length === 1 ? result.files : result.folders;
+				if (!bucket.includes(rest[0])) bucket.push(rest[0]);
+			}
+			return result;
+		},
+	};
+	return { dirOps, files };
+}
+
+function memoryFileOps(): { ops: FileOps; files: Map<string, string | Uint8Array> } {
+	const files = new Map<string, string | Uint8Array>();
+	const ops: FileOps = {
+		readFile: async (p) => {
+			const v = files.get(p);
+			return typeof v === "string" ? v : null;
+		},
+		readBinaryFile: async (p) => {
+			const v = files.get(p);
+			return v instanceof Uint8Array ? v : null;
+		},
+		writeFile: async (p, data) => {
+			files.set(p, data);
+		},
+		writeBinaryFile: async (p, data) => {
+			files.set(p, data);
+		},
+		mkdir: async () => {},
+		exists: async (p) => files.has(p),
+		remove: async (p) => {
+			files.delete(p);
+		},
+		rename: async (from, to) => {
+			const data = files.get(from);
+			if (data === undefined) throw new Error(`No such file: ${from}`);
+			files.set(to, data);
+			files.delete(from);
+		},
+	};
+	return { ops, files };
+}
+
+test("lists every metadata file, versioned by lastModified", async () => {
+	const { dirOps } = xochitlTree();
+	const listing = await new XochitlFolderSource(ROOT + "/", dirOps).fetchListing(null);
+
+	const pages = listing.documents.find((d) => d.id === PAGES_DOC);
+	assert.equal(pages?.name, "Pages");
+	assert.equal(pages?.version, Number(pages?.modifiedTime));
+	assert.ok(listing.documents.some((d) => d.docType === "CollectionType"));
+	assert.match(listing.rootHash, /^[0-9a-f]{64}$/);
+});
+
+test("the root hash changes only when a metadata file changes", async () => {
+	const { dirOps, files } = xochitlTree();
+	const source = new XochitlFolderSource(ROOT, dirOps);
+	const first = await source.fetchListing(null);
+	assert.equal((await source.fetchListing(first)).rootHash, first.rootHash);
+
+	files.set(`${ROOT}/${PAGES_DOC}.metadata`, new TextEncoder().encode(
+		JSON.stringify({ visibleName: "Pages", type: "DocumentType", lastModified: "1900000000000" })
+	));
+	const second = await source.fetchListing(first);
+	assert.notEqual(second.rootHash, first.rootHash);
+	assert.equal(second.documents.find((d) => d.id === PAGES_DOC)?.version, 1900000000000);
+});
+
+test("loads a document under the same names the cloud uses", async () => {
+	const cloudDoc = loadReferenceLibrary().documents.get(PAGES_DOC)!;
+	const { dirOps, files } = xochitlTree();
+	// Device-only caches are left out of the load.
+	files.set(`${ROOT}/${PAGES_DOC}.thumbnails/page.png`, new Uint8Array([1]));
+
+	const source = new XochitlFolderSource(ROOT, dirOps);
+	await source.fetchListing(null);
+	const loaded = await source.downloadDocument(PAGES_DOC);
+
+	assert.deepEqual(Array.from(loaded.keys()).sort(), Array.from(cloudDoc.files.keys()).sort());
+	for (const [name, data] of cloudDoc.files) assert.deepEqual(loaded.get(name), data);
+});
+
+test("file hashes match the cloud's blob hashes and pick what to load", async () => {
+	const { dirOps } = xochitlTree();
+	const source = new XochitlFolderSource(ROOT, dirOps);
+	await source.fetchListing(null);
+	const hashes = await source.fileHashes(PAGES_DOC);
+	const pageFile = Array.from(hashes.keys()).find((name) => name.endsWith(".rm"))!;
+	const expected = createHash("sha256").update(loadReferenceLibrary().documents.get(PAGES_DOC)!.files.get(pageFile)!);
+	assert.equal(hashes.get(pageFile), expected.digest("hex"));
+
+	const loaded = await source.downloadDocument(PAGES_DOC, undefined, (name) => name === pageFile);
+	assert.deepEqual(Array.from(loaded.keys()), [pageFile]);
+});
+
+test("only the files asked for are read to hash them", async () => {
+	const { dirOps } = xochitlTree();
+	const read: string[] = [];
+	const countingOps: DirectoryOps = {
+		...dirOps,
+		readBinaryFile: (p) => {
+			read.push(p);
+			return dirOps.readBinaryFile(p);
+		},
+	};
+	const source = new XochitlFolderSource(ROOT, countingOps);
+	await source.fetchListing(null);
+	read.length = 0;
+
+	const hashes = await source.fileHashes(PAGES_DOC, undefined, (name) => name.endsWith(".rm"));
+	assert.ok(hashes.size > 0);
+	assert.ok(read.every((p) => p.endsWith(".rm")));
+	assert.deepEqual(Array.from(hashes.keys()).filter((name) => !name.endsWith(".rm")), []);
+});
+
+test("an empty or missing folder is an error rather than an empty library", async () => {
+	const { dirOps } = xochitlTree();
+	const source = new XochitlFolderSource("/elsewhere", dirOps);
+	await assert.rejects(source.fetchListing(null), /No reMarkable documents found in \/elsewhere/);
+	await assert.rejects(source.downloadDocument(PAGES_DOC), /not found/);
+});
+
+test("SyncManager syncs a local folder without any cloud access", async () => {
+	const { dirOps } = xochitlTree();
+	const { ops, files } = memoryFileOps();
+	const manager = new SyncManager("", "reMarkable", ops, new SyncState());
+	const source = new XochitlFolderSource(ROOT, dirOps);
+
+	const results = await manager.sync(source, { writeLog: false });
+	assert.deepEqual(results.errors, []);
+	assert.ok(results.log[0].includes(`Fetching document list from local folder ${ROOT}`));
+	assert.ok(files.has("reMarkable/Reference Sheets/Pages.pdf"));
+
+	const again = await manager.sync(source, { writeLog: false });
+	assert.equal(again.synced.length, 0);
+	assert.equal(again.skipped.length, results.synced.length);
+});
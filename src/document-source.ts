@@ -0,0 +1,193 @@
+/**
+ * Document Sources
+ *
+ * Where SyncManager gets its library from. A source lists documents and loads
+ * each one as the logical-filename → bytes map DocumentConverter consumes.
+ * RemarkableCloudClient is the cloud source; XochitlFolderSource reads a copy
+ * of the tablet's xochitl directory (e.g. an rsync backup), so a sync works
+ * without the cloud. Obsidian-independent via abstracted directory access.
+ */
+
+import {
+	type DocumentMetadata,
+	type ListProgressCallback,
+	type RemoteListing,
+	type RetryCallback,
+	docFromSync15,
+	parseJsonOrEmpty,
+	sha256Hex,
+} from "./cloud-client";
+import { mapConcurrent, throwIfAborted } from "./concurrency";
+
+export interface DocumentSource {
+	/** Shown in progress messages, e.g. "reMarkable cloud". */
+	readonly label: string;
+	/** False when the source needs credentials it doesn't have yet. */
+	readonly isAuthenticated: boolean;
+	/** Receives a line whenever a request is retried (network sources only). */
+	onRetry?: RetryCallback | null;
+	/** Bytes received so far, cache hits excluded (network sources only). */
+	readonly bytesFetched?: number;
+
+	/**
+	 * List the whole library. `previous` is the listing saved by the last
+	 * sync; sources may reuse it when nothing changed. An aborted `signal`
+	 * rejects with CANCELLED_MESSAGE.
+	 */
+	fetchListing(
+		previous: RemoteListing | null,
+		onProgress?: ListProgressCallback,
+		signal?: AbortSignal
+	): Promise<RemoteListing>;
+
+	/**
+	 * Load the files of a document, keyed by their logical filenames: every
+	 * file, or only those `include` accepts.
+	 */
+	downloadDocument(
+		docId: string,
+		signal?: AbortSignal,
+		include?: (filename: string) => boolean
+	): Promise<Map<string, Uint8Array>>;
+
+	/**
+	 * The SHA-256 (hex) of every file of a document, keyed by logical
+	 * filename, so a sync can tell which pages changed before downloading any:
+	 * every file, or only those `include` accepts.
+	 */
+	fileHashes(
+		docId: string,
+		signal?: AbortSignal,
+		include?: (filename: string) => boolean
+	): Promise<Map<string, string>>;
+}
+
+// --- Local xochitl folder ---
+
+/** Read-only directory access for XochitlFolderSource. */
+export interface DirectoryOps {
+	readBinaryFile(path: string): Promise<Uint8Array | null>;
+	/** Entry names (not paths) directly inside `dir`; empty if it is missing. */
+	list(dir: string): Promise<{ files: string[]; folders: string[] }>;
+}
+
+// Per-document folders holding device-only caches the converter never reads.
+const SKIPPED_FOLDER_SUFFIXES = [".thumbnails", ".cache", ".textconversion"];
+
+// Metadata files are small; reading a few at a time keeps large libraries quick.
+const METADATA_READ_CONCURRENCY = 8;
+
+/**
+ * A xochitl directory as found on the tablet at
+ * ~/.local/share/remarkable/xochitl: `<uuid>.metadata`, `<uuid>.content` and
+ * friends at the top level, page `.rm` files in `<uuid>/`. Files are keyed
+ * exactly as the cloud names them, so conversion is identical either way.
+ */
+export class XochitlFolderSource implements DocumentSource {
+	readonly label: string;
+	readonly isAuthenticated = true;
+	private dir: string;
+	private dirOps: DirectoryOps;
+	private entries: { files: string[]; folders: string[] } | null = null;
+
+	constructor(dir: string, dirOps: DirectoryOps) {
+		this.dir = dir.replace(/\/+$/, "");
+		this.dirOps = dirOps;
+		this.label = `local folder ${this.dir}`;
+	}
+
+	/**
+	 * Read every `.metadata` file, and `.content` for the type and tags.
+	 * Local reads are cheap, so the previous listing is not reused; the
+	 * version is the document's lastModified time, which the tablet bumps on
+	 * every edit.
+	 */
+	async fetchListing(
+		_previous: RemoteListing | null,
+		onProgress?: ListProgressCallback,
+		signal?: AbortSignal
+	): Promise<RemoteListing> {
+		const entries = await this.dirOps.list(this.dir);
+		this.entries = entries;
+		const ids = entries.files
+			.filter((name) => name.endsWith(".metadata"))
+			.map((name) => name.slice(0, -".metadata".length))
+			.sort();
+		if (ids.length === 0) {
+			throw new Error(`No reMarkable documents found in ${this.dir}`);
+		}
+
+		const listed = await mapConcurrent(
+			ids,
+			METADATA_READ_CONCURRENCY,
+			async (id) => {
+				throwIfAborted(signal);
+				const data = await this.dirOps.readBinaryFile(`${this.dir}/${id}.metadata`);
+				if (!data) return null;
+				let metadata: Record<string, any>;
+				try {
+					metadata = JSON.parse(new TextDecoder().decode(data));
+				} catch {
+					return null; // Half-written by an rsync in progress
+				}
+				const version = Number(metadata.lastModified) || 0;
+				const content = parseJsonOrEmpty(await this.dirOps.readBinaryFile(`${this.dir}/${id}.content`));
+				const fileNames = entries.files.filter((name) => name.startsWith(`${id}.`));
+				return docFromSync15(id, version, await sha256Hex(data), metadata, content, fileNames);
+			},
+			onProgress
+		);
+		const documents = listed.filter((doc): doc is DocumentMetadata => doc !== null);
+
+		const rootLines = documents.map((doc) => `${doc.id}:${doc.entryHash}`).join("\n");
+		const rootHash = await sha256Hex(new TextEncoder().encode(rootLines));
+		return { rootHash, documents };
+	}
+
+	async downloadDocument(
+		docId: string,
+		signal?: AbortSignal,
+		include?: (filename: string) => boolean
+	): Promise<Map<string, Uint8Array>> {
+		const files = new Map<string, Uint8Array>();
+		for (const name of await this.documentFiles(docId)) {
+			if (include && !include(name)) continue;
+			throwIfAborted(signal);
+			const data = await this.dirOps.readBinaryFile(`${this.dir}/${name}`);
+			if (data) files.set(name, data);
+		}
+		return files;
+	}
+
+	// Hashes are computed by reading the files, so only the included ones are read.
+	async fileHashes(
+		docId: string,
+		signal?: AbortSignal,
+		include?: (filename: string) => boolean
+	): Promise<Map<string, string>> {
+		const hashes = new Map<string, string>();
+		for (const [name, data] of await this.downloadDocument(docId, signal, include)) {
+			hashes.set(name, await sha256Hex(data));
+		}
+		return hashes;
+	}
+
+	// Logical filenames of a document: top-level `<uuid>.*` files plus the
+	// files in its folders (the pages in `<uuid>/`), minus device caches.
+	private async documentFiles(docId: string): Promise<string[]> {
+		const entries = this.entries ?? (await this.dirOps.list(this.dir));
+		const prefix = `${docId}.`;
+		if (!entries.files.includes(`${docId}.metadata`)) {
+			throw new Error(`Document ${docId} not found in ${this.dir}`);
+		}
+
+		const names = entries.files.filter((name) => name.startsWith(prefix));
+		for (const folder of entries.folders) {
+			if (folder !== docId && !folder.startsWith(prefix)) continue;
+			if (SKIPPED_FOLDER_SUFFIXES.some((suffix) => folder.endsWith(suffix))) continue;
+			const { files } = await this.dirOps.list(`${this.dir}/${folder}`);
+			for (const name of files) names.push(`${folder}/${name}`);
+		}
+		return names;
+	}
+}
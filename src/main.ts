@@ -1,7 +1,34 @@
-import { Notice, Plugin, TFile, normalizePath, requestUrl } from "obsidian";
-import { RemarkableSyncSettings, DEFAULT_SETTINGS, RemarkableSyncSettingTab } from "./settings";
-import { RemarkableCloudClient, type FileOps, type FetchFn, type FetchResponse } from "./cloud-client";
-import { SyncManager } from "./sync-manager";
+import { App, Modal, Notice, Plugin, Setting, TAbstractFile, TFile, normalizePath, requestUrl } from "obsidian";
+import {
+	RemarkableSyncSettings,
+	DEFAULT_SETTINGS,
+	RemarkableSyncSettingTab,
+	migrateSettings,
+	type SyncProfile,
+} from "./settings";
+import {
+	AUTH_HOST,
+	SYNC_HOST,
+	RemarkableCloudClient,
+	normalizeHost,
+	type FileOps,
+	type FetchFn,
+	type FetchResponse,
+	type TokenClaims,
+	type UploadFileType,
+} from "./cloud-client";
+import { BlobCache } from "./blob-cache";
+import { XochitlFolderSource, type DirectoryOps, type DocumentSource } from "./document-source";
+import {
+	SyncManager,
+	type DocumentSelection,
+	type FailureRecord,
+	type RemoteDocument,
+	type SyncResults,
+	type SyncTarget,
+} from "./sync-manager";
+import { buildSyncPlan, isApplicable, type PlanItem, type SyncPlan } from "./sync-plan";
+import { convertArchive } from "./document-converter";
 import { SYNC_INTERVALS, SYNC_LOG_FILENAME } from "./constants";
 import * as path from "path";
 import * as fs from "fs";
@@ -9,26 +36,35 @@ import * as fs from "fs";
 export default class RemarkableSyncPlugin extends Plugin {
 	settings: RemarkableSyncSettings = DEFAULT_SETTINGS;
 	private client!: RemarkableCloudClient;
-	private syncIntervalId: number | null = null;
+	private syncIntervalIds: number[] = [];
 	private statusBarItem: HTMLElement | null = null;
 	private ribbonIconEl: HTMLElement | null = null;
 	private isSyncing = false;
+	private syncAbort: AbortController | null = null;
+	private discoveredSyncHost = false;
 
 	async onload(): Promise<void> {
 		await this.loadSettings();
 
-		// Initialize cloud client with Node.js file ops + Obsidian fetch.
+		// Initialize cloud client with Node.js file ops + Obsidian fetch and the
+		// window timers.
 		// The token store lives OUTSIDE the vault (~/.remarkable-sync), so it
 		// uses raw fs rather than the vault adapter.
 		const configDir = this.getConfigDir();
-		this.client = new RemarkableCloudClient(configDir, this.getTokenFileOps(), this.getObsidianFetch());
-		await this.client.init();
-
-		// Update auth status from token store
-		this.settings.isAuthenticated = this.client.isAuthenticated;
+		this.client = new RemarkableCloudClient(configDir, this.getTokenFileOps(), this.getObsidianFetch(), window);
+		this.client.concurrency = this.settings.fetchConcurrency;
+		this.configureBlobCache();
+		// Selects the token file for the configured server, then loads it and
+		// updates the auth status.
+		await this.applyCloudHosts();
 
-		// Ribbon icon for manual sync (spins while a sync is in progress)
+		// Ribbon icon for manual sync (spins while a sync is in progress, and
+		// cancels it when clicked then)
 		this.ribbonIconEl = this.addRibbonIcon("refresh-cw", "Sync reMarkable", async () => {
+			if (this.isSyncing) {
+				this.cancelSync();
+				return;
+			}
 			await this.runSync();
 		});
 
@@ -49,6 +85,34 @@ export default class RemarkableSyncPlugin extends Plugin {
 			callback: () => this.runSync(true),
 		});
 
+		this.addCommand({
+			id: "preview-sync",
+			name: "Preview sync",
+			callback: () => this.previewSync(),
+		});
+
+		this.addCommand({
+			id: "cancel-sync",
+			name: "Cancel sync",
+			checkCallback: (checking) => {
+				if (!this.isSyncing) return false;
+				if (!checking) this.cancelSync();
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "choose-documents",
+			name: "Choose documents to sync",
+			callback: () => this.openLibraryPicker(),
+		});
+
+		this.addCommand({
+			id: "show-failing-documents",
+			name: "Show quarantined documents",
+			callback: () => this.openFailingDocuments(),
+		});
+
 		this.addCommand({
 			id: "check-status",
 			name: "Check sync status",
@@ -61,6 +125,49 @@ export default class RemarkableSyncPlugin extends Plugin {
 			callback: () => this.openSyncLog(),
 		});
 
+		this.addCommand({
+			id: "upload-active-file",
+			name: "Upload current file to reMarkable",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !isUploadable(file)) return false;
+				if (!checking) this.uploadFile(file);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "convert-archives",
+			name: "Convert reMarkable archives in vault to PDF",
+			callback: () => this.convertArchivesInVault(),
+		});
+
+		// "Upload to reMarkable" on PDFs and EPUBs in the file explorer
+		this.registerEvent(
+			this.app.workspace.on("file-menu", (menu, file) => {
+				if (!isUploadable(file)) return;
+				menu.addItem((item) =>
+					item
+						.setTitle("Upload to reMarkable")
+						.setIcon("upload")
+						.onClick(() => this.uploadFile(file))
+				);
+			})
+		);
+
+		// "Convert to PDF" on .rmdoc/.zip exports in the file explorer
+		this.registerEvent(
+			this.app.workspace.on("file-menu", (menu, file) => {
+				if (!isArchive(file)) return;
+				menu.addItem((item) =>
+					item
+						.setTitle("Convert to PDF")
+						.setIcon("file-output")
+						.onClick(() => this.convertArchiveFile(file))
+				);
+			})
+		);
+
 		// Settings tab
 		this.addSettingTab(new RemarkableSyncSettingTab(this.app, this));
 
@@ -73,11 +180,52 @@ export default class RemarkableSyncPlugin extends Plugin {
 	}
 
 	async loadSettings(): Promise<void> {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, migrateSettings(await this.loadData()));
 	}
 
 	async saveSettings(): Promise<void> {
 		await this.saveData(this.settings);
+		if (this.client) this.client.concurrency = this.settings.fetchConcurrency;
+	}
+
+	// The blob cache sits next to the token store, outside the vault, so
+	// cached pages are never indexed or synced by Obsidian.
+	configureBlobCache(): void {
+		const mb = this.settings.blobCacheSizeMb;
+		this.client.cache = mb > 0
+			? new BlobCache(path.join(this.getConfigDir(), "cache"), this.getTokenFileOps(), mb * 1024 * 1024)
+			: null;
+	}
+
+	/**
+	 * Point the client at the configured auth/sync hosts (the official cloud
+	 * when left empty) and reload that server's tokens. With only an auth
+	 * host set, the sync host defaults to the same server, as rmfakecloud
+	 * serves both.
+	 */
+	async applyCloudHosts(): Promise<void> {
+		const customAuth = normalizeHost(this.settings.authHost);
+		const authHost = customAuth ?? AUTH_HOST;
+		const syncHost = normalizeHost(this.settings.syncHost) ?? customAuth ?? SYNC_HOST;
+		this.client.setHosts({ authHost, syncHost });
+		this.discoveredSyncHost = false;
+		await this.client.init();
+		this.settings.isAuthenticated = this.client.isAuthenticated;
+	}
+
+	// Service discovery runs once per session (and again after the hosts
+	// change), and never overrides a sync host set in settings. Failure is
+	// not fatal: the configured sync host is kept.
+	private async resolveSyncHost(): Promise<void> {
+		if (!this.settings.discoverSyncHost || this.discoveredSyncHost) return;
+		if (normalizeHost(this.settings.syncHost)) return;
+		try {
+			const host = await this.client.discoverSyncHost();
+			if (host) this.client.hosts = { ...this.client.hosts, syncHost: host };
+			this.discoveredSyncHost = true;
+		} catch {
+			// Keep the configured sync host
+		}
 	}
 
 	private getConfigDir(): string {
@@ -85,6 +233,15 @@ export default class RemarkableSyncPlugin extends Plugin {
 		return path.join(home, ".remarkable-sync");
 	}
 
+	// The cloud client, or a local xochitl copy as chosen in settings. A
+	// leading "~" in the folder path is expanded like a shell would.
+	private getDocumentSource(): DocumentSource {
+		if (this.settings.documentSource === "cloud") return this.client;
+		const home = process.env.HOME || process.env.USERPROFILE || "";
+		const dir = this.settings.localLibraryPath.replace(/^~(?=$|[/\\])/, home);
+		return new XochitlFolderSource(dir, this.getLocalDirectoryOps());
+	}
+
 	private getObsidianFetch(): FetchFn {
 		return async (url, options) => {
 			const result = await requestUrl({
@@ -97,6 +254,7 @@ export default class RemarkableSyncPlugin extends Plugin {
 			return {
 				ok: result.status >= 200 && result.status < 300,
 				status: result.status,
+				headers: result.headers,
 				text: async () => typeof result.text === "string" ? result.text : new TextDecoder().decode(result.arrayBuffer),
 				json: async () => result.json,
 				arrayBuffer: async () => result.arrayBuffer,
@@ -117,6 +275,13 @@ export default class RemarkableSyncPlugin extends Plugin {
 					return null;
 				}
 			},
+			async readBinaryFile(filePath: string): Promise<Uint8Array | null> {
+				try {
+					return new Uint8Array(fs.readFileSync(filePath));
+				} catch {
+					return null;
+				}
+			},
 			async writeFile(filePath: string, data: string): Promise<void> {
 				const dir = path.dirname(filePath);
 				fs.mkdirSync(dir, { recursive: true });
@@ -133,6 +298,39 @@ export default class RemarkableSyncPlugin extends Plugin {
 			async exists(filePath: string): Promise<boolean> {
 				return fs.existsSync(filePath);
 			},
+			async remove(filePath: string): Promise<void> {
+				fs.rmSync(filePath, { force: true });
+			},
+			async rename(from: string, to: string): Promise<void> {
+				fs.mkdirSync(path.dirname(to), { recursive: true });
+				fs.renameSync(from, to);
+			},
+		};
+	}
+
+	// Read-only access to a xochitl folder outside the vault, via raw Node fs
+	// like the token store.
+	private getLocalDirectoryOps(): DirectoryOps {
+		return {
+			async readBinaryFile(filePath: string): Promise<Uint8Array | null> {
+				try {
+					return new Uint8Array(fs.readFileSync(filePath));
+				} catch {
+					return null;
+				}
+			},
+			async list(dirPath: string): Promise<{ files: string[]; folders: string[] }> {
+				const result = { files: [] as string[], folders: [] as string[] };
+				try {
+					for (const entry of fs.readdirSync(dirPath, { withFileTypes: true })) {
+						if (entry.isDirectory()) result.folders.push(entry.name);
+						else if (entry.isFile()) result.files.push(entry.name);
+					}
+				} catch {
+					// Missing folder — reported as empty
+				}
+				return result;
+			},
 		};
 	}
 
@@ -144,7 +342,8 @@ export default class RemarkableSyncPlugin extends Plugin {
 	// API does not track, so the adapter (which handles dotfiles transparently)
 	// is used uniformly for all three.
 	private getVaultFileOps(): FileOps {
-		const adapter = this.app.vault.adapter;
+		const app = this.app;
+		const adapter = app.vault.adapter;
 
 		// adapter.mkdir is not reliably recursive across platforms and can throw
 		// if the folder already exists, so create each missing ancestor.
@@ -167,6 +366,10 @@ export default class RemarkableSyncPlugin extends Plugin {
 				// and callers (SyncState.load, writeRunLog) rely on null/empty.
 				return (await adapter.exists(p)) ? adapter.read(p) : null;
 			},
+			async readBinaryFile(filePath: string): Promise<Uint8Array | null> {
+				const p = normalizePath(filePath);
+				return (await adapter.exists(p)) ? new Uint8Array(await adapter.readBinary(p)) : null;
+			},
 			async writeFile(filePath: string, data: string): Promise<void> {
 				const p = normalizePath(filePath);
 				await ensureParent(p);
@@ -183,9 +386,31 @@ export default class RemarkableSyncPlugin extends Plugin {
 			async exists(filePath: string): Promise<boolean> {
 				return adapter.exists(normalizePath(filePath));
 			},
+			// Indexed files go to the system trash so removals can be undone,
+			// and are renamed through the file manager so links pointing at
+			// the PDF are updated.
+			async remove(filePath: string): Promise<void> {
+				const p = normalizePath(filePath);
+				const file = app.vault.getAbstractFileByPath(p);
+				if (file instanceof TFile) await app.vault.trash(file, true);
+				else if (await adapter.exists(p)) await adapter.remove(p);
+			},
+			async rename(from: string, to: string): Promise<void> {
+				const source = normalizePath(from);
+				const target = normalizePath(to);
+				await ensureParent(target);
+				const file = app.vault.getAbstractFileByPath(source);
+				if (file instanceof TFile) await app.fileManager.renameFile(file, target);
+				else await adapter.rename(source, target);
+			},
 		};
 	}
 
+	/** Account details decoded from the current user token, if any. */
+	get accountInfo(): TokenClaims | null {
+		return this.client.tokens.userClaims;
+	}
+
 	async registerDevice(code: string): Promise<boolean> {
 		const success = await this.client.registerDevice(code);
 		if (success) {
@@ -220,43 +445,64 @@ export default class RemarkableSyncPlugin extends Plugin {
 		await this.saveSettings();
 	}
 
-	async runSync(force = false): Promise<void> {
+	/**
+	 * Sync the given profiles (by default every enabled one). `only` limits a
+	 * profile, by id, to the documents picked in a sync preview.
+	 */
+	async runSync(
+		force = false,
+		profiles: SyncProfile[] = this.settings.profiles.filter((profile) => profile.enabled),
+		only?: Record<string, string[]>
+	): Promise<void> {
 		if (this.isSyncing) {
 			new Notice("reMarkable sync is already running.");
 			return;
 		}
-
-		if (!this.settings.isAuthenticated) {
-			new Notice("Please authenticate with reMarkable first. Open plugin settings.");
+		if (profiles.length === 0) {
+			new Notice("reMarkable: No sync profile is enabled. Open plugin settings.");
 			return;
 		}
 
+		if (!this.checkSourceReady()) return;
+		const useCloud = this.settings.documentSource === "cloud";
+
 		this.isSyncing = true;
+		this.syncAbort = new AbortController();
+		const signal = this.syncAbort.signal;
 		this.setRibbonSpinning(true);
 		this.updateStatusBar("syncing...");
 		new Notice("reMarkable: Starting sync...");
 
 		try {
+			if (useCloud) await this.resolveSyncHost();
+
 			// Write through the vault adapter using vault-relative paths (empty
 			// base = the vault root), so synced files are visible to Obsidian
 			// immediately.
-			const manager = await SyncManager.create(
+			const allResults = await SyncManager.syncTargets(
+				this.getDocumentSource(),
 				"",
-				this.settings.subfolder,
-				this.getVaultFileOps()
+				this.getVaultFileOps(),
+				this.syncTargetsFor(profiles, force, signal).map((target, i) => ({
+					...target,
+					options: { ...target.options, onlyDocuments: only?.[profiles[i].id] },
+				}))
 			);
+			const results = combineResults(allResults);
 
-			const results = await manager.sync(this.client, {
-				folderFilter: this.settings.folderFilter || undefined,
-				force,
-				writeLog: this.settings.writeSyncLog,
-				logFileName: SYNC_LOG_FILENAME,
-			});
-
-			this.settings.lastSyncTime = new Date().toISOString();
+			// "Sync once" picks are spent once the document is in sync.
+			const selections = { ...this.settings.documentSelections };
+			for (const docId of allResults.flatMap((r) => r.syncedOnce)) delete selections[docId];
+			this.settings.documentSelections = selections;
+			if (!results.cancelled) this.settings.lastSyncTime = new Date().toISOString();
 			await this.saveSettings();
 
-			if (results.errors.length > 0) {
+			if (results.cancelled) {
+				new Notice(
+					`reMarkable: Sync cancelled after ${results.synced.length} document(s). ` +
+						"The next sync carries on from there."
+				);
+			} else if (results.errors.length > 0) {
 				// Surface the first few error messages directly so users get
 				// immediate, actionable detail without opening the log.
 				const preview = results.errors
@@ -283,6 +529,24 @@ export default class RemarkableSyncPlugin extends Plugin {
 			} else {
 				new Notice("reMarkable: Everything up to date.");
 			}
+
+			const quarantined = allResults.flatMap((r) => r.errorDetails.filter((detail) => detail.quarantined));
+			if (quarantined.length > 0) {
+				new Notice(
+					`reMarkable: ${quarantined.length} document(s) kept failing and are no longer synced: ` +
+						`${quarantined.map((detail) => detail.path).join(", ")}. ` +
+						'Run "Show quarantined documents" to retry them.',
+					15000
+				);
+			}
+
+			if (results.conflicts.length > 0) {
+				const names = results.conflicts.slice(0, 3).map((c) => `• ${c.path}`).join("\n");
+				new Notice(
+					`reMarkable: ${results.conflicts.length} PDF(s) edited in the vault were not overwritten.\n${names}`,
+					15000
+				);
+			}
 		} catch (err) {
 			const message = (err as Error).message;
 			if (message.includes("Not authenticated")) {
@@ -292,15 +556,263 @@ export default class RemarkableSyncPlugin extends Plugin {
 			new Notice(`reMarkable sync failed: ${message}`, 10000);
 		} finally {
 			this.isSyncing = false;
+			this.syncAbort = null;
+			this.setRibbonSpinning(false);
+			this.updateStatusBar();
+		}
+	}
+
+	/**
+	 * Plan a sync of every enabled profile without writing anything, and show
+	 * the plan. Applying it syncs only the documents picked in the preview.
+	 */
+	async previewSync(): Promise<void> {
+		if (this.isSyncing) {
+			new Notice("reMarkable sync is already running.");
+			return;
+		}
+		const profiles = this.settings.profiles.filter((profile) => profile.enabled);
+		if (profiles.length === 0) {
+			new Notice("reMarkable: No sync profile is enabled. Open plugin settings.");
+			return;
+		}
+		if (!this.checkSourceReady()) return;
+
+		this.isSyncing = true;
+		this.syncAbort = new AbortController();
+		const signal = this.syncAbort.signal;
+		this.setRibbonSpinning(true);
+		this.updateStatusBar("planning...");
+		new Notice("reMarkable: Planning sync...");
+
+		let plans: ProfilePlan[];
+		try {
+			if (this.settings.documentSource === "cloud") await this.resolveSyncHost();
+			const allResults = await SyncManager.syncTargets(
+				this.getDocumentSource(),
+				"",
+				this.getVaultFileOps(),
+				this.syncTargetsFor(profiles, false, signal).map((target) => ({
+					...target,
+					options: { ...target.options, dryRun: true, writeLog: false, writeReport: false },
+				}))
+			);
+			if (allResults.some((results) => results.cancelled)) {
+				new Notice("reMarkable: Sync preview cancelled.");
+				return;
+			}
+			plans = allResults.map((results, i) => ({ profile: profiles[i], plan: buildSyncPlan(results) }));
+		} catch (err) {
+			new Notice(`reMarkable: Could not plan the sync: ${(err as Error).message}`, 10000);
+			return;
+		} finally {
+			this.isSyncing = false;
+			this.syncAbort = null;
 			this.setRibbonSpinning(false);
 			this.updateStatusBar();
 		}
+
+		new SyncPreviewModal(this.app, plans, (only) => {
+			const picked = profiles.filter((profile) => only[profile.id]?.length);
+			if (picked.length > 0) this.runSync(false, picked, only);
+		}).open();
+	}
+
+	// One sync target per profile, with the options from the plugin settings.
+	private syncTargetsFor(profiles: SyncProfile[], force: boolean, signal: AbortSignal): SyncTarget[] {
+		return profiles.map((profile) => ({
+			subfolder: profile.subfolder,
+			options: {
+				folderFilter: profile.remoteFolder || undefined,
+				excludeFolders: profile.excludeFolders,
+				rules: profile.rules,
+				outputFormats: profile.outputFormats,
+				pathTemplate: profile.pathTemplate,
+				force,
+				removalPolicy: this.settings.removalPolicy,
+				conflictPolicy: this.settings.conflictPolicy,
+				documentConcurrency: this.settings.documentConcurrency,
+				conversionConcurrency: this.settings.conversionConcurrency,
+				writeLog: this.settings.writeSyncLog,
+				logFileName: SYNC_LOG_FILENAME,
+				writeReport: this.settings.writeSyncReport,
+				logHistory: this.settings.syncLogHistory,
+				quarantineAfter: this.settings.quarantineAfter,
+				selections: this.settings.documentSelections,
+				signal,
+			},
+		}));
+	}
+
+	/**
+	 * List the library and let the user pick documents to always sync, never
+	 * sync or sync once. The "synced" marks cover every profile's folder.
+	 */
+	async openLibraryPicker(): Promise<void> {
+		if (!this.checkSourceReady()) return;
+		if (this.settings.profiles.length === 0) {
+			new Notice("reMarkable: Add a sync profile first. Open plugin settings.");
+			return;
+		}
+
+		new Notice("reMarkable: Loading library...");
+		try {
+			if (this.settings.documentSource === "cloud") await this.resolveSyncHost();
+			const fileOps = this.getVaultFileOps();
+			const managers: SyncManager[] = [];
+			for (const profile of this.settings.profiles) {
+				managers.push(await SyncManager.create("", profile.subfolder, fileOps));
+			}
+			const documents = await managers[0].listRemote(this.getDocumentSource());
+			for (const doc of documents) {
+				doc.synced = managers.some((manager) => manager.hasSynced(doc.id));
+			}
+
+			new LibraryPickerModal(this.app, documents, this.settings.documentSelections, async (selections) => {
+				this.settings.documentSelections = selections;
+				await this.saveSettings();
+				new Notice("reMarkable: Document choices saved.");
+			}).open();
+		} catch (err) {
+			new Notice(`reMarkable: Could not load the library: ${(err as Error).message}`, 10000);
+		}
+	}
+
+	/**
+	 * List documents whose syncs keep failing, across every profile, and let
+	 * the user release them so the next sync tries them again.
+	 */
+	async openFailingDocuments(): Promise<void> {
+		const fileOps = this.getVaultFileOps();
+		const entries: FailingDocument[] = [];
+		for (const profile of this.settings.profiles) {
+			const manager = await SyncManager.create("", profile.subfolder, fileOps);
+			for (const failure of manager.failingDocuments()) {
+				entries.push({ ...failure, profile: profile.name, manager });
+			}
+		}
+		if (entries.length === 0) {
+			new Notice("reMarkable: No documents are failing to sync.");
+			return;
+		}
+		new FailingDocumentsModal(this.app, entries).open();
+	}
+
+	// Notices explain what is missing before a sync or listing can run.
+	private checkSourceReady(): boolean {
+		if (this.settings.documentSource === "cloud" && !this.settings.isAuthenticated) {
+			new Notice("Please authenticate with reMarkable first. Open plugin settings.");
+			return false;
+		}
+		if (this.settings.documentSource === "local" && !this.settings.localLibraryPath) {
+			new Notice("Please set the xochitl folder to sync from. Open plugin settings.");
+			return false;
+		}
+		return true;
+	}
+
+	async uploadFile(file: TFile): Promise<void> {
+		if (!this.settings.isAuthenticated) {
+			new Notice("Please authenticate with reMarkable first. Open plugin settings.");
+			return;
+		}
+		// An upload rewrites the cloud root, which a running sync may be
+		// updating too.
+		if (this.isSyncing) {
+			new Notice("reMarkable: Wait for the sync to finish before uploading.");
+			return;
+		}
+
+		new Notice(`reMarkable: Uploading "${file.name}"...`);
+		try {
+			await this.resolveSyncHost();
+			const data = new Uint8Array(await this.app.vault.readBinary(file));
+			await this.client.uploadDocument(
+				file.basename,
+				data,
+				file.extension.toLowerCase() as UploadFileType
+			);
+			new Notice(`reMarkable: Uploaded "${file.basename}".`);
+		} catch (err) {
+			new Notice(`reMarkable upload failed: ${(err as Error).message}`, 10000);
+		}
+	}
+
+	async convertArchiveFile(file: TFile): Promise<void> {
+		try {
+			const pdfPath = await this.writeArchivePdf(file);
+			new Notice(`reMarkable: Converted "${file.name}" to "${pdfPath}".`);
+		} catch (err) {
+			new Notice(`reMarkable: Could not convert "${file.name}": ${(err as Error).message}`, 10000);
+		}
+	}
+
+	/**
+	 * Convert every .rmdoc in the vault whose PDF is missing or older than the
+	 * archive, so re-running the command only picks up new exports.
+	 */
+	async convertArchivesInVault(): Promise<void> {
+		const archives = this.app.vault.getFiles().filter(
+			(file) => file.extension.toLowerCase() === "rmdoc"
+		);
+		let converted = 0;
+		let upToDate = 0;
+		const failures: string[] = [];
+
+		for (const archive of archives) {
+			const pdf = this.app.vault.getAbstractFileByPath(archivePdfPath(archive));
+			if (pdf instanceof TFile && pdf.stat.mtime >= archive.stat.mtime) {
+				upToDate++;
+				continue;
+			}
+			try {
+				await this.writeArchivePdf(archive);
+				converted++;
+			} catch (err) {
+				failures.push(`• ${archive.path}: ${(err as Error).message}`);
+			}
+		}
+
+		if (archives.length === 0) {
+			new Notice("reMarkable: No .rmdoc files found in the vault.");
+		} else if (failures.length > 0) {
+			new Notice(
+				`reMarkable: Converted ${converted} archive(s), ${failures.length} failed.\n` +
+				failures.slice(0, 3).join("\n"),
+				15000
+			);
+		} else {
+			new Notice(`reMarkable: Converted ${converted} archive(s). ${upToDate} already up to date.`);
+		}
+	}
+
+	// Write the archive's PDF next to it, replacing an earlier conversion.
+	private async writeArchivePdf(archive: TFile): Promise<string> {
+		const pdf = await convertArchive(new Uint8Array(await this.app.vault.readBinary(archive)));
+		const pdfPath = archivePdfPath(archive);
+		const existing = this.app.vault.getAbstractFileByPath(pdfPath);
+		if (existing instanceof TFile) {
+			await this.app.vault.modifyBinary(existing, toArrayBuffer(pdf));
+		} else {
+			await this.app.vault.createBinary(pdfPath, toArrayBuffer(pdf));
+		}
+		return pdfPath;
 	}
 
 	async openSyncLog(): Promise<void> {
+		// Each profile logs into its own folder; open the first one written.
 		// normalizePath guards against a malformed subfolder (empty -> leading
 		// slash, trailing slash, backslashes) that would break the lookup.
-		const relPath = normalizePath(`${this.settings.subfolder}/${SYNC_LOG_FILENAME}`);
+		const candidates = this.settings.profiles.map((profile) =>
+			normalizePath(`${profile.subfolder}/${SYNC_LOG_FILENAME}`)
+		);
+		let relPath = candidates[0] ?? SYNC_LOG_FILENAME;
+		for (const candidate of candidates) {
+			if (await this.app.vault.adapter.exists(candidate)) {
+				relPath = candidate;
+				break;
+			}
+		}
 
 		// Fast path: the log is already in Obsidian's file cache.
 		let file = this.app.vault.getAbstractFileByPath(relPath);
@@ -328,8 +840,17 @@ export default class RemarkableSyncPlugin extends Plugin {
 		);
 	}
 
+	/** Cancel the running sync; documents already synced are kept. */
+	cancelSync(): void {
+		if (!this.syncAbort || this.syncAbort.signal.aborted) return;
+		this.syncAbort.abort();
+		this.updateStatusBar("cancelling...");
+		new Notice("reMarkable: Cancelling sync...");
+	}
+
 	private setRibbonSpinning(active: boolean): void {
 		this.ribbonIconEl?.toggleClass("remarkable-sync-spinning", active);
+		this.ribbonIconEl?.setAttribute("aria-label", active ? "Cancel reMarkable sync" : "Sync reMarkable");
 	}
 
 	private updateStatusBar(override?: string): void {
@@ -349,23 +870,357 @@ export default class RemarkableSyncPlugin extends Plugin {
 		}
 	}
 
+	// One timer per interval in use, so profiles on the same schedule sync
+	// together in one pass instead of queueing behind each other.
 	restartAutoSync(): void {
 		this.stopAutoSync();
-		const intervalMs = SYNC_INTERVALS[this.settings.syncIntervalLabel];
-		if (intervalMs && intervalMs > 0) {
-			this.syncIntervalId = window.setInterval(() => {
-				this.runSync();
+		const byInterval = new Map<number, SyncProfile[]>();
+		for (const profile of this.settings.profiles) {
+			const intervalMs = SYNC_INTERVALS[profile.syncIntervalLabel];
+			if (!profile.enabled || !intervalMs || intervalMs <= 0) continue;
+			byInterval.set(intervalMs, [...(byInterval.get(intervalMs) ?? []), profile]);
+		}
+		for (const [intervalMs, profiles] of byInterval) {
+			const id = window.setInterval(() => {
+				this.runSync(false, profiles);
 			}, intervalMs);
-			this.registerInterval(this.syncIntervalId);
+			this.registerInterval(id);
+			this.syncIntervalIds.push(id);
 		}
 	}
 
 	private stopAutoSync(): void {
-		if (this.syncIntervalId !== null) {
-			window.clearInterval(this.syncIntervalId);
-			this.syncIntervalId = null;
+		for (const id of this.syncIntervalIds) window.clearInterval(id);
+		this.syncIntervalIds = [];
+	}
+}
+
+const SELECTION_LABELS: [DocumentSelection, string][] = [
+	["always", "Always"],
+	["never", "Never"],
+	["once", "Once"],
+];
+
+/**
+ * The remote library grouped by folder, with Always / Never / Once boxes per
+ * document. At most one box is ticked; a document with none follows the
+ * profile rules. Choices are only saved with the Save button.
+ */
+class LibraryPickerModal extends Modal {
+	private documents: RemoteDocument[];
+	private selections: Record<string, DocumentSelection>;
+	private onSave: (selections: Record<string, DocumentSelection>) => Promise<void>;
+
+	constructor(
+		app: App,
+		documents: RemoteDocument[],
+		selections: Record<string, DocumentSelection>,
+		onSave: (selections: Record<string, DocumentSelection>) => Promise<void>
+	) {
+		super(app);
+		this.documents = documents.slice().sort((a, b) => a.path.localeCompare(b.path));
+		this.selections = { ...selections };
+		this.onSave = onSave;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.titleEl.setText("Choose documents to sync");
+		contentEl.createEl("p", {
+			cls: "setting-item-description",
+			text: "Always and Once sync a document even when the profile rules leave it out; Never keeps it out. Choices apply within each profile's reMarkable folder.",
+		});
+
+		const filterEl = contentEl.createEl("input", {
+			type: "search",
+			placeholder: "Filter by name or folder",
+			cls: "remarkable-sync-picker-filter",
+		});
+		const listEl = contentEl.createDiv({ cls: "remarkable-sync-picker" });
+		const render = () => this.renderList(listEl, filterEl.value.trim().toLowerCase());
+		filterEl.addEventListener("input", render);
+		render();
+
+		new Setting(contentEl)
+			.addButton((btn) => btn.setButtonText("Cancel").onClick(() => this.close()))
+			.addButton((btn) =>
+				btn
+					.setButtonText("Save")
+					.setCta()
+					.onClick(async () => {
+						await this.onSave(this.selections);
+						this.close();
+					})
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private renderList(listEl: HTMLElement, filter: string): void {
+		listEl.empty();
+		const shown = this.documents.filter((doc) => !filter || doc.path.toLowerCase().includes(filter));
+		if (shown.length === 0) {
+			listEl.createEl("p", { cls: "setting-item-description", text: "No matching documents." });
+			return;
 		}
+
+		let folder: string | null = null;
+		for (const doc of shown) {
+			const docFolder = doc.path.substring(0, doc.path.length - doc.name.length).replace(/\/$/, "");
+			if (docFolder !== folder) {
+				folder = docFolder;
+				listEl.createDiv({ cls: "remarkable-sync-picker-folder", text: folder || "My files" });
+			}
+
+			const row = listEl.createDiv({ cls: "remarkable-sync-picker-row" });
+			const nameEl = row.createSpan({ cls: "remarkable-sync-picker-name", text: doc.name });
+			if (doc.synced) nameEl.createSpan({ cls: "remarkable-sync-picker-synced", text: "synced" });
+
+			const boxes: HTMLInputElement[] = [];
+			for (const [selection, label] of SELECTION_LABELS) {
+				const labelEl = row.createEl("label", { cls: "remarkable-sync-picker-choice" });
+				const box = labelEl.createEl("input", { type: "checkbox" });
+				labelEl.appendText(label);
+				box.checked = this.selections[doc.id] === selection;
+				box.addEventListener("change", () => {
+					if (box.checked) {
+						this.selections[doc.id] = selection;
+						for (const other of boxes) if (other !== box) other.checked = false;
+					} else {
+						delete this.selections[doc.id];
+					}
+				});
+				boxes.push(box);
+			}
+		}
+	}
+}
+
+/** A profile's planned sync, as shown in the preview. */
+interface ProfilePlan {
+	profile: SyncProfile;
+	plan: SyncPlan;
+}
+
+const PLAN_ACTION_LABELS: Record<PlanItem["action"], string> = {
+	create: "New",
+	update: "Update",
+	"conflict-copy": "Conflict copy",
+	move: "Move",
+	archive: "Archive",
+	delete: "Delete",
+	skip: "Skip",
+};
+
+/**
+ * The plan of a dry-run sync, per profile: every download, overwrite, move
+ * and removal with a box to pick it, then the documents left alone and why.
+ * Everything is picked to start with; Apply syncs only the picked documents.
+ */
+class SyncPreviewModal extends Modal {
+	private plans: ProfilePlan[];
+	private onApply: (only: Record<string, string[]>) => void;
+	// Picked document ids by profile id.
+	private picked = new Map<string, Set<string>>();
+
+	constructor(app: App, plans: ProfilePlan[], onApply: (only: Record<string, string[]>) => void) {
+		super(app);
+		this.plans = plans;
+		this.onApply = onApply;
+		for (const { profile, plan } of plans) {
+			this.picked.set(profile.id, new Set(plan.items.filter(isApplicable).map((item) => item.docId)));
+		}
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.titleEl.setText("Preview sync");
+		const changes = this.plans.reduce((sum, { plan }) => sum + plan.items.filter(isApplicable).length, 0);
+		const unchanged = this.plans.reduce((sum, { plan }) => sum + plan.unchanged, 0);
+		contentEl.createEl("p", {
+			cls: "setting-item-description",
+			text:
+				changes > 0
+					? `${changes} document(s) would change; ${unchanged} are already up to date. Untick anything you don't want synced yet.`
+					: `Nothing to sync; ${unchanged} document(s) are already up to date.`,
+		});
+
+		const listEl = contentEl.createDiv({ cls: "remarkable-sync-picker" });
+		for (const { profile, plan } of this.plans) {
+			if (plan.items.length === 0) continue;
+			if (this.plans.length > 1) {
+				listEl.createDiv({ cls: "remarkable-sync-picker-folder", text: profile.name });
+			}
+			for (const item of plan.items) this.renderItem(listEl, profile, item);
+		}
+
+		const buttons = new Setting(contentEl).addButton((btn) => btn.setButtonText("Cancel").onClick(() => this.close()));
+		if (changes > 0) {
+			buttons
+				.addButton((btn) =>
+					btn.setButtonText("Apply selected").onClick(() => this.apply(this.pickedIds()))
+				)
+				.addButton((btn) =>
+					btn
+						.setButtonText("Apply all")
+						.setCta()
+						.onClick(() => this.apply(this.allIds()))
+				);
+		}
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private renderItem(listEl: HTMLElement, profile: SyncProfile, item: PlanItem): void {
+		const row = listEl.createDiv({ cls: "remarkable-sync-picker-row" });
+		// Skips get an empty box cell, so the columns line up.
+		const boxEl = row.createSpan({ cls: "remarkable-sync-preview-box" });
+		if (isApplicable(item)) {
+			const box = boxEl.createEl("input", { type: "checkbox" });
+			box.checked = true;
+			box.addEventListener("change", () => {
+				const picked = this.picked.get(profile.id)!;
+				if (box.checked) picked.add(item.docId);
+				else picked.delete(item.docId);
+			});
+		}
+		row.createSpan({ cls: "remarkable-sync-preview-action", text: PLAN_ACTION_LABELS[item.action] });
+		const itemEl = row.createDiv({ cls: "remarkable-sync-preview-item", text: item.path });
+		for (const change of item.changes) {
+			itemEl.createDiv({ cls: "setting-item-description", text: change });
+		}
+	}
+
+	private pickedIds(): Record<string, string[]> {
+		const only: Record<string, string[]> = {};
+		for (const [profileId, ids] of this.picked) only[profileId] = Array.from(ids);
+		return only;
+	}
+
+	private allIds(): Record<string, string[]> {
+		const only: Record<string, string[]> = {};
+		for (const { profile, plan } of this.plans) {
+			only[profile.id] = plan.items.filter(isApplicable).map((item) => item.docId);
+		}
+		return only;
 	}
+
+	private apply(only: Record<string, string[]>): void {
+		this.close();
+		this.onApply(only);
+	}
+}
+
+/** A failing document with the profile whose sync state records it. */
+interface FailingDocument extends FailureRecord {
+	docId: string;
+	profile: string;
+	manager: SyncManager;
+}
+
+/**
+ * Documents whose syncs keep failing: how often, the last error, and whether
+ * they are quarantined or waiting to retry. Releasing one clears its count
+ * straight away, so the next sync tries it again.
+ */
+class FailingDocumentsModal extends Modal {
+	private entries: FailingDocument[];
+
+	constructor(app: App, entries: FailingDocument[]) {
+		super(app);
+		this.entries = entries;
+	}
+
+	onOpen(): void {
+		this.titleEl.setText("Quarantined documents");
+		this.render();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		if (this.entries.length === 0) {
+			contentEl.createEl("p", {
+				cls: "setting-item-description",
+				text: "No documents are failing to sync.",
+			});
+			return;
+		}
+		contentEl.createEl("p", {
+			cls: "setting-item-description",
+			text: "These documents failed to sync. Quarantined documents are skipped until retried here or changed on the tablet; the others are retried after a wait.",
+		});
+
+		const listEl = contentEl.createDiv({ cls: "remarkable-sync-picker" });
+		for (const entry of this.entries) {
+			const status = entry.quarantined
+				? "Quarantined"
+				: `Retrying after ${new Date(entry.retryAfter).toLocaleString()}`;
+			new Setting(listEl)
+				.setName(entry.path)
+				.setDesc(
+					`${status} · ${entry.count} failure(s) in "${entry.profile}", ` +
+						`last ${new Date(entry.lastFailedAt).toLocaleString()}: ${entry.lastError}`
+				)
+				.addButton((btn) => btn.setButtonText("Retry next sync").onClick(() => this.release([entry])));
+		}
+
+		new Setting(contentEl)
+			.addButton((btn) => btn.setButtonText("Close").onClick(() => this.close()))
+			.addButton((btn) =>
+				btn
+					.setButtonText("Retry all next sync")
+					.setCta()
+					.onClick(() => this.release(this.entries))
+			);
+	}
+
+	private async release(entries: FailingDocument[]): Promise<void> {
+		for (const manager of new Set(entries.map((entry) => entry.manager))) {
+			await manager.releaseFailures(entries.filter((entry) => entry.manager === manager).map((entry) => entry.docId));
+		}
+		this.entries = this.entries.filter((entry) => !entries.includes(entry));
+		new Notice(`reMarkable: ${entries.length} document(s) will be retried on the next sync.`);
+		this.render();
+	}
+}
+
+/** Totals of a multi-profile pass, for the summary notices. */
+function combineResults(
+	allResults: SyncResults[]
+): Pick<SyncResults, "synced" | "skipped" | "errors" | "conflicts" | "cancelled"> {
+	return {
+		cancelled: allResults.some((r) => r.cancelled),
+		synced: allResults.flatMap((r) => r.synced),
+		skipped: allResults.flatMap((r) => r.skipped),
+		errors: allResults.flatMap((r) => r.errors),
+		conflicts: allResults.flatMap((r) => r.conflicts),
+	};
+}
+
+function isUploadable(file: TAbstractFile): file is TFile {
+	if (!(file instanceof TFile)) return false;
+	const ext = file.extension.toLowerCase();
+	return ext === "pdf" || ext === "epub";
+}
+
+function isArchive(file: TAbstractFile): file is TFile {
+	if (!(file instanceof TFile)) return false;
+	const ext = file.extension.toLowerCase();
+	return ext === "rmdoc" || ext === "zip";
+}
+
+// "Notes/Meeting.rmdoc" → "Notes/Meeting.pdf"
+function archivePdfPath(archive: TFile): string {
+	return archive.path.slice(0, archive.path.length - archive.extension.length) + "pdf";
 }
 
 function delay(ms: number): Promise<void> {
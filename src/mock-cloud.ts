@@ -0,0 +1,317 @@
+/**
+ * Mock reMarkable Cloud (test support)
+ *
+ * An in-process stand-in for the reMarkable cloud, exposed as a FetchFn so a
+ * real RemarkableCloudClient (and SyncManager on top of it) can run a complete
+ * sync without network access. Serves the auth endpoints, /sync/v3/root and
+ * content-addressed /sync/v3/files blobs in the sync15 schema v4 layout, and
+ * supports fault injection for exercising retries and per-document failures.
+ *
+ * Node-only (reads fixtures with fs); never imported by the plugin bundle.
+ */
+
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import type { FetchFn, FetchResponse } from "./cloud-client";
+
+// --- Fixture types ---
+
+export interface MockDocument {
+	id: string;
+	/** Logical filename → blob bytes, e.g. "<id>.metadata", "<id>/<page>.rm". */
+	files: Map<string, Uint8Array>;
+}
+
+export interface MockRequest {
+	method: string;
+	path: string;
+	rmFilename?: string;
+}
+
+/**
+ * A scripted failure. Matches requests whose path contains `match` (or whose
+ * rm-filename header does), fails the next `times` of them (default: all),
+ * either with an HTTP `status` or by throwing `error` like a dropped socket.
+ */
+export interface MockFault {
+	match: string;
+	status?: number;
+	error?: string;
+	retryAfter?: string;
+	times?: number;
+}
+
+// --- Mock cloud ---
+
+export class MockCloud {
+	readonly blobs: Map<string, Uint8Array> = new Map();
+	readonly requests: MockRequest[] = [];
+	readonly documents: Map<string, MockDocument> = new Map();
+	rootHash = "";
+	generation = 1;
+	/** Lifetime of the user tokens handed out by /token/json/2/user/new. */
+	tokenLifetimeSeconds = 24 * 60 * 60;
+
+	private faults: MockFault[] = [];
+
+	constructor() {
+		this.publishRoot();
+	}
+
+	/** Add (or replace) a document or folder and publish a new root. */
+	putDocument(doc: MockDocument): void {
+		this.documents.set(doc.id, doc);
+		this.publishRoot();
+	}
+
+	/** Add a folder (CollectionType) with the given name and parent. */
+	putFolder(id: string, name: string, parent = ""): void {
+		const files = new Map<string, Uint8Array>();
+		files.set(`${id}.metadata`, encodeJson({ visibleName: name, type: "CollectionType", parent }));
+		files.set(`${id}.content`, encodeJson({}));
+		this.putDocument({ id, files });
+	}
+
+	removeDocument(id: string): void {
+		this.documents.delete(id);
+		this.publishRoot();
+	}
+
+	/** Change a document's .metadata fields (e.g. rename or move it). */
+	updateMetadata(id: string, changes: Record<string, unknown>): void {
+		const doc = this.documents.get(id);
+		if (!doc) throw new Error(`No mock document ${id}`);
+		const name = `${id}.metadata`;
+		const current = JSON.parse(new TextDecoder().decode(doc.files.get(name)));
+		doc.files.set(name, encodeJson({ ...current, ...changes }));
+		this.publishRoot();
+	}
+
+	injectFault(fault: MockFault): void {
+		this.faults.push({ ...fault });
+	}
+
+	clearFaults(): void {
+		this.faults = [];
+	}
+
+	/** Requests whose path contains `fragment`. */
+	requestsTo(fragment: string): MockRequest[] {
+		return this.requests.filter((r) => r.path.includes(fragment));
+	}
+
+	/** A FetchFn serving this cloud on any host. */
+	readonly fetch: FetchFn = async (url, options) => {
+		const method = options?.method ?? "GET";
+		const urlPath = new URL(url).pathname;
+		const rmFilename = options?.headers?.["rm-filename"];
+		this.requests.push({ method, path: urlPath, rmFilename });
+
+		const fault = this.takeFault(urlPath, rmFilename);
+		if (fault?.error) throw new Error(fault.error);
+		if (fault) {
+			return respond(fault.status ?? 500, "injected fault", fault.retryAfter
+				? { "retry-after": fault.retryAfter }
+				: {});
+		}
+
+		if (urlPath === "/token/json/2/device/new" && method === "POST") {
+			return respond(200, "mock-device-token");
+		}
+		if (urlPath === "/token/json/2/user/new" && method === "POST") {
+			return respond(200, this.userToken());
+		}
+		if (urlPath.startsWith("/service/json/1/document-storage")) {
+			return respond(200, JSON.stringify({ Status: "OK", Host: new URL(url).host }));
+		}
+		if (urlPath === "/sync/v3/root") {
+			return method === "PUT" ? this.putRoot(options?.body) : this.getRoot();
+		}
+		if (urlPath.startsWith("/sync/v3/files/")) {
+			// The real endpoint rejects blob requests without rm-filename.
+			if (!rmFilename) return respond(400, JSON.stringify({ message: "missing 'rm-filename' http header" }));
+			const hash = urlPath.substring("/sync/v3/files/".length);
+			if (method === "PUT") {
+				this.blobs.set(hash, toBytes(options?.body));
+				return respond(200, "");
+			}
+			const blob = this.blobs.get(hash);
+			return blob ? respond(200, blob) : respond(404, "not found");
+		}
+		return respond(404, "not found");
+	};
+
+	// --- Internals ---
+
+	private takeFault(urlPath: string, rmFilename?: string): MockFault | null {
+		for (const fault of this.faults) {
+			const hit = urlPath.includes(fault.match) || (rmFilename?.includes(fault.match) ?? false);
+			if (!hit) continue;
+			if (fault.times === undefined) return fault;
+			if (fault.times > 0) {
+				fault.times--;
+				return fault;
+			}
+		}
+		return null;
+	}
+
+	private userToken(): string {
+		const now = Math.floor(Date.now() / 1000);
+		const b64url = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+		return [
+			b64url({ alg: "HS256", typ: "JWT" }),
+			b64url({
+				iat: now,
+				exp: now + this.tokenLifetimeSeconds,
+				scopes: "intgr sync:tortoise",
+				"auth0-profile": { Email: "mock@example.com", UserID: "auth0|mock" },
+			}),
+			"mock-signature",
+		].join(".");
+	}
+
+	private getRoot(): FetchResponse {
+		return respond(200, JSON.stringify({
+			hash: this.rootHash,
+			generation: this.generation,
+			schemaVersion: 4,
+		}));
+	}
+
+	// Compare-and-swap on generation, as the real server does. Documents
+	// uploaded through the client are folded back into `documents`.
+	private putRoot(body: string | ArrayBuffer | undefined): FetchResponse {
+		const request = JSON.parse(typeof body === "string" ? body : new TextDecoder().decode(body));
+		if (request.generation !== this.generation) return respond(412, "generation mismatch");
+		if (!this.blobs.has(request.hash)) return respond(400, "unknown root hash");
+		this.rootHash = request.hash;
+		this.generation++;
+		this.adoptRoot();
+		return respond(200, JSON.stringify({ hash: this.rootHash, generation: this.generation }));
+	}
+
+	private adoptRoot(): void {
+		const text = new TextDecoder().decode(this.blobs.get(this.rootHash));
+		const known = new Map<string, MockDocument>();
+		for (const line of text.trim().split("\n").slice(2)) {
+			const [hash, , id] = line.split(":");
+			const existing = this.documents.get(id);
+			if (existing) {
+				known.set(id, existing);
+				continue;
+			}
+			const files = new Map<string, Uint8Array>();
+			const index = new TextDecoder().decode(this.blobs.get(hash));
+			for (const entry of index.trim().split("\n").slice(2)) {
+				const [fileHash, , filename] = entry.split(":");
+				files.set(filename, this.blobs.get(fileHash) ?? new Uint8Array());
+			}
+			known.set(id, { id, files });
+		}
+		this.documents.clear();
+		for (const [id, doc] of known) this.documents.set(id, doc);
+	}
+
+	private store(data: Uint8Array): string {
+		const hash = createHash("sha256").update(data).digest("hex");
+		this.blobs.set(hash, data);
+		return hash;
+	}
+
+	private publishRoot(): void {
+		const rootLines: string[] = [];
+		let rootSize = 0;
+		const ids = Array.from(this.documents.keys()).sort();
+		for (const id of ids) {
+			const doc = this.documents.get(id)!;
+			const names = Array.from(doc.files.keys()).sort();
+			const lines: string[] = [];
+			let size = 0;
+			for (const name of names) {
+				const data = doc.files.get(name)!;
+				lines.push(`${this.store(data)}:0:${name}:0:${data.byteLength}`);
+				size += data.byteLength;
+			}
+			const index = encodeText(["4", `0:${id}:${names.length}:${size}`, ...lines].join("\n") + "\n");
+			rootLines.push(`${this.store(index)}:80000000:${id}:${names.length}:${size}`);
+			rootSize += size;
+		}
+		const root = encodeText(["4", `0:.:${ids.length}:${rootSize}`, ...rootLines].join("\n") + "\n");
+		this.rootHash = this.store(root);
+		this.generation++;
+	}
+}
+
+// --- Fixtures ---
+
+/**
+ * Build a MockCloud holding every notebook under `dir` (default: the repo's
+ * reference_sheets). Each subdirectory holds `<uuid>.metadata`,
+ * `<uuid>.content` and `page_<n>_<pageId>.rm` files; pages are stored under
+ * their cloud name, `<uuid>/<pageId>.rm`. All sheets share one parent, which
+ * is added as a "Reference Sheets" folder.
+ */
+export function loadReferenceLibrary(dir = path.join(__dirname, "..", "reference_sheets")): MockCloud {
+	const cloud = new MockCloud();
+	const parents = new Set<string>();
+
+	for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+		if (!entry.isDirectory()) continue;
+		const docDir = path.join(dir, entry.name);
+		const names = fs.readdirSync(docDir);
+		const metaName = names.find((n) => n.endsWith(".metadata"));
+		if (!metaName) continue;
+
+		const id = metaName.replace(/\.metadata$/, "");
+		const files = new Map<string, Uint8Array>();
+		for (const name of names) {
+			const data = new Uint8Array(fs.readFileSync(path.join(docDir, name)));
+			const page = /^page_\d+_(.+\.rm)$/.exec(name);
+			files.set(page ? `${id}/${page[1]}` : name, data);
+		}
+
+		const metadata = JSON.parse(new TextDecoder().decode(files.get(metaName)));
+		if (metadata.parent) parents.add(metadata.parent);
+		cloud.putDocument({ id, files });
+	}
+
+	for (const parent of parents) {
+		if (!cloud.documents.has(parent)) cloud.putFolder(parent, "Reference Sheets");
+	}
+	return cloud;
+}
+
+// --- Helpers ---
+
+function respond(
+	status: number,
+	body: string | Uint8Array,
+	headers: Record<string, string> = {}
+): FetchResponse {
+	const bytes = typeof body === "string" ? encodeText(body) : body;
+	const buffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+	const text = () => new TextDecoder().decode(bytes);
+	return {
+		ok: status >= 200 && status < 300,
+		status,
+		headers,
+		text: async () => text(),
+		json: async () => JSON.parse(text()),
+		arrayBuffer: async () => buffer,
+	};
+}
+
+function toBytes(body: string | ArrayBuffer | undefined): Uint8Array {
+	if (body === undefined) return new Uint8Array();
+	return typeof body === "string" ? encodeText(body) : new Uint8Array(body.slice(0));
+}
+
+function encodeText(text: string): Uint8Array {
+	return new TextEncoder().encode(text);
+}
+
+function encodeJson(value: unknown): Uint8Array {
+	return encodeText(JSON.stringify(value));
+}
@@ -0,0 +1,50 @@
+/**
+ * Unit tests for the cross-platform path sanitiser.
+ *
+ * Run: npx tsx --test src/path-sanitizer.test.ts
+ */
+import test from "node:test";
+import assert from "node:assert/strict";
+import { MAX_NAME_BYTES, MAX_NAME_LENGTH, fitPathLength, sanitizeName } from "./path-sanitizer";
+
+test("replaces reserved and control characters, including slashes", () => {
+	assert.equal(sanitizeName('a<b>c:d"e|f?g*h'), "a_b_c_d_e_f_g_h");
+	assert.equal(sanitizeName("Q1/Q2 \\ plans"), "Q1_Q2 _ plans");
+	assert.equal(sanitizeName("tab\there\u0000"), "tab_here_");
+});
+
+test("suffixes Windows device names, with or without an extension", () => {
+	assert.equal(sanitizeName("CON"), "CON_");
+	assert.equal(sanitizeName("nul.notes"), "nul_.notes");
+	assert.equal(sanitizeName("com1"), "com1_");
+	assert.equal(sanitizeName("Console"), "Console");
+});
+
+test("drops trailing dots and spaces and avoids hidden or empty names", () => {
+	assert.equal(sanitizeName("Draft. . "), "Draft");
+	assert.equal(sanitizeName("  padded  "), "padded");
+	assert.equal(sanitizeName(".config"), "_config");
+	assert.equal(sanitizeName(".."), "_");
+	assert.equal(sanitizeName(""), "_");
+	assert.equal(sanitizeName("a b"), "a b");
+});
+
+test("normalises to NFC so macOS and Windows agree on the name", () => {
+	assert.equal(sanitizeName("Café"), "Café");
+});
+
+test("caps names by characters and UTF-8 bytes without splitting characters", () => {
+	assert.equal(sanitizeName("x".repeat(300)).length, MAX_NAME_LENGTH);
+	const emoji = sanitizeName("\u{1F600}".repeat(100));
+	assert.ok(new TextEncoder().encode(emoji).length <= MAX_NAME_BYTES);
+	assert.equal(emoji, "\u{1F600}".repeat(MAX_NAME_BYTES / 4));
+});
+
+test("fits long paths by shortening only the file name", () => {
+	const folder = "reMarkable/" + "f".repeat(80);
+	const fitted = fitPathLength(`${folder}/${"n".repeat(100)}`, 150);
+	assert.equal(fitted, `${folder}/${"n".repeat(150 - folder.length - 1)}`);
+	assert.equal(fitPathLength("short/path", 150), "short/path");
+	// Never shorter than a readable stub, even when the folders alone are too long.
+	assert.equal(fitPathLength(`${"f".repeat(200)}/notebook-name`, 150), `${"f".repeat(200)}/notebook`);
+});
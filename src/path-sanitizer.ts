@@ -0,0 +1,75 @@
+/**
+ * Path Sanitiser
+ *
+ * Turns reMarkable document and folder names into names that are valid on
+ * Windows, macOS and Linux alike and that Obsidian indexes: no reserved
+ * characters or device names, no trailing dots or spaces, no hidden
+ * dot-names, and bounded lengths. Pure TypeScript — no Obsidian deps.
+ */
+
+/** Longest name kept, in characters, before ".pdf" and any suffixes. */
+export const MAX_NAME_LENGTH = 100;
+/** Longest name kept in UTF-8 bytes; most file systems allow 255 per name. */
+export const MAX_NAME_BYTES = 200;
+/** Longest vault-relative path (without ".pdf"), well inside Windows' 260. */
+export const MAX_PATH_LENGTH = 200;
+
+// A shortened name keeps at least this many characters.
+const MIN_NAME_LENGTH = 8;
+
+// Reserved on Windows or NTFS, plus "/" and "\" which would split the name
+// into folders.
+const ILLEGAL_CHARS = /[<>:"/\\|?*\u0000-\u001f\u007f]/g;
+
+// Windows device names, reserved with or without an extension.
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[0-9¹²³]|lpt[0-9¹²³])(\..*)?$/i;
+
+/** Make one path segment (a file or folder name) safe on every platform. */
+export function sanitizeName(name: string): string {
+	let safe = name
+		.normalize("NFC")
+		.replace(/[\u00a0\u202f]/g, " ") // normalizePath turns these into spaces
+		.replace(ILLEGAL_CHARS, "_")
+		.trim();
+	safe = stripTrailing(truncate(safe, MAX_NAME_LENGTH, MAX_NAME_BYTES));
+	// Obsidian ignores dot-names, and "." / ".." are not names at all.
+	if (safe.startsWith(".")) safe = "_" + safe.substring(1);
+	if (!safe) safe = "_";
+	if (RESERVED_NAMES.test(safe)) safe = safe.replace(/^[^.]*/, "$&_");
+	return safe;
+}
+
+/**
+ * Shorten the last segment of a "/"-separated path until the whole path is
+ * at most `maxLength` characters. Folder segments are left alone, so files
+ * in the same folder still share it.
+ */
+export function fitPathLength(path: string, maxLength = MAX_PATH_LENGTH): string {
+	if (path.length <= maxLength) return path;
+	const slash = path.lastIndexOf("/");
+	const folder = path.substring(0, slash + 1);
+	const room = Math.max(MIN_NAME_LENGTH, maxLength - folder.length);
+	const name = stripTrailing(truncate(path.substring(slash + 1), room, MAX_NAME_BYTES));
+	return folder + (name || "_");
+}
+
+// --- Helpers ---
+
+// Cut at a code-point boundary so surrogate pairs are never split.
+function truncate(value: string, maxChars: number, maxBytes: number): string {
+	const encoder = new TextEncoder();
+	let result = "";
+	let bytes = 0;
+	for (const char of Array.from(value)) {
+		const size = encoder.encode(char).length;
+		if (result.length + char.length > maxChars || bytes + size > maxBytes) break;
+		result += char;
+		bytes += size;
+	}
+	return result;
+}
+
+// Windows drops trailing dots and spaces, so "Notes." and "Notes" collide.
+function stripTrailing(value: string): string {
+	return value.replace(/[. ]+$/, "");
+}
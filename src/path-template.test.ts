@@ -0,0 +1,66 @@
+/**
+ * Unit tests for output path templates.
+ *
+ * Run: npx tsx --test src/path-template.test.ts
+ */
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { DocumentMetadata } from "./cloud-client";
+import { DEFAULT_PATH_TEMPLATE, compilePathTemplate } from "./path-template";
+
+// Local noon, so the date is the same in every time zone the tests run in.
+const CREATED = String(new Date(2023, 11, 24, 12).getTime());
+const MODIFIED = String(new Date(2024, 2, 5, 12).getTime());
+
+function doc(fields: Partial<DocumentMetadata> = {}): DocumentMetadata {
+	return {
+		id: "0a1b2c3d-0000-4000-8000-000000000000",
+		version: 1,
+		name: "Standup",
+		parent: "folder-1",
+		docType: "DocumentType",
+		createdTime: CREATED,
+		modifiedTime: MODIFIED,
+		pinned: false,
+		isTrashed: false,
+		entryHash: "",
+		fileType: "notebook",
+		tags: [],
+		...fields,
+	};
+}
+
+test("the default template keeps the tablet's layout", () => {
+	const render = compilePathTemplate(DEFAULT_PATH_TEMPLATE);
+	assert.equal(render(doc(), "Work/Meetings"), "Work/Meetings/Standup");
+	assert.equal(render(doc({ parent: "" }), ""), "Standup");
+	assert.equal(compilePathTemplate("  ")(doc(), "Work"), "Work/Standup");
+});
+
+test("tokens fill in folder, name, id, type, tags and dates", () => {
+	const render = compilePathTemplate("Notes/{yyyy}/{folder}/{name}");
+	assert.equal(render(doc(), "Work/Meetings"), "Notes/2023/Work/Meetings/Standup");
+
+	const detailed = compilePathTemplate("{type}/{tags}/{modified:yyyy-mm} {name} ({id})");
+	assert.equal(
+		detailed(doc({ tags: ["work", "q1"] }), ""),
+		"notebook/work, q1/2024-03 Standup (0a1b2c3d-0000-4000-8000-000000000000)"
+	);
+	assert.equal(compilePathTemplate("{created}_{modified}_{mm}{dd}")(doc(), ""), "2023-12-24_2024-03-05_1224");
+});
+
+test("empty values drop their segment and unsafe values are sanitised", () => {
+	const render = compilePathTemplate("{tags}/{folder}/{name}");
+	assert.equal(render(doc(), ""), "Standup");
+	assert.equal(render(doc({ name: "A/B: C?", tags: ["x/y"] }), "Work"), "x_y/Work/A_B_ C_");
+	// Older firmware records no created time; the modified date stands in.
+	assert.equal(compilePathTemplate("{yyyy}/{name}")(doc({ createdTime: "" }), ""), "2024/Standup");
+	assert.equal(compilePathTemplate("{created}/{name}")(doc({ createdTime: "", modifiedTime: "" }), ""), "Standup");
+	// A template that renders to nothing still names the file.
+	assert.equal(compilePathTemplate("{tags}")(doc(), ""), "Standup");
+});
+
+test("an unknown token fails instead of naming files after it", () => {
+	assert.throws(() => compilePathTemplate("{folder}/{title}"), /Unknown path template token: \{title\}/);
+	assert.throws(() => compilePathTemplate("{yyyy:mm}"), /Unknown path template token/);
+});
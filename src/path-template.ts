@@ -0,0 +1,128 @@
+/**
+ * Path Templates
+ *
+ * Builds a document's vault path, below its profile's vault folder, from a
+ * template such as "Notes/{yyyy}/{folder}/{name}". Token values are made
+ * safe segment by segment with sanitizeName, and empty segments are dropped,
+ * so "{tags}/{name}" files untagged documents directly in the folder.
+ * Pure TypeScript — no Obsidian deps.
+ */
+
+import type { DocumentMetadata } from "./cloud-client";
+import { sanitizeName } from "./path-sanitizer";
+
+/** The tablet's own layout: its folders, then the document name. */
+export const DEFAULT_PATH_TEMPLATE = "{folder}/{name}";
+
+/** Tokens a template may use, for help texts. */
+export const PATH_TEMPLATE_TOKENS = [
+	"{folder}",
+	"{name}",
+	"{id}",
+	"{type}",
+	"{tags}",
+	"{created}",
+	"{modified}",
+	"{yyyy}",
+	"{mm}",
+	"{dd}",
+];
+
+/**
+ * A document's path below the vault folder, without an extension, from its
+ * metadata and its tablet folder with each segment already sanitised
+ * ("" at the top level).
+ */
+export type PathTemplate = (doc: DocumentMetadata, safeFolder: string) => string;
+
+/**
+ * Compile a template once per sync. {created} and {modified} give the date
+ * as yyyy-mm-dd, or in a format of their own such as {modified:yyyy-mm};
+ * {yyyy}, {mm} and {dd} are parts of the created date. Throws on an unknown
+ * token, so a typo fails the sync instead of filing documents under it.
+ */
+export function compilePathTemplate(template: string): PathTemplate {
+	const text = template.trim() || DEFAULT_PATH_TEMPLATE;
+	const parts: (string | TokenValue)[] = [];
+	let last = 0;
+	for (const match of text.matchAll(TOKEN_PATTERN)) {
+		parts.push(text.substring(last, match.index), compileToken(match[1]));
+		last = match.index! + match[0].length;
+	}
+	parts.push(text.substring(last));
+
+	return (doc, safeFolder) => {
+		const path = parts
+			.map((part) => (typeof part === "string" ? part : part(doc, safeFolder)))
+			.join("");
+		const segments = path
+			.split("/")
+			.filter((segment) => segment.trim())
+			.map(sanitizeName);
+		return segments.length > 0 ? segments.join("/") : sanitizeName(doc.name);
+	};
+}
+
+// --- Helpers ---
+
+const TOKEN_PATTERN = /\{([^{}]*)\}/g;
+
+type TokenValue = (doc: DocumentMetadata, safeFolder: string) => string;
+
+function compileToken(token: string): TokenValue {
+	const [name, format] = splitToken(token.trim());
+	switch (name.toLowerCase()) {
+		case "folder":
+			return (_doc, safeFolder) => safeFolder;
+		case "name":
+			return (doc) => segmentValue(doc.name);
+		case "id":
+			return (doc) => doc.id;
+		case "type":
+			return (doc) => doc.fileType;
+		case "tags":
+			return (doc) => segmentValue(doc.tags.join(", "));
+		case "created":
+			return (doc) => formatDate(createdDate(doc), format ?? "yyyy-mm-dd");
+		case "modified":
+			return (doc) => formatDate(dateOf(doc.modifiedTime), format ?? "yyyy-mm-dd");
+		case "yyyy":
+		case "mm":
+		case "dd":
+			if (format === undefined) return (doc) => formatDate(createdDate(doc), name.toLowerCase());
+	}
+	throw new Error(`Unknown path template token: {${token}}`);
+}
+
+// "modified:yyyy-mm" → ["modified", "yyyy-mm"]
+function splitToken(token: string): [string, string | undefined] {
+	const colon = token.indexOf(":");
+	return colon < 0 ? [token, undefined] : [token.substring(0, colon).trim(), token.substring(colon + 1)];
+}
+
+// A tablet name is one segment, even when it contains a slash.
+function segmentValue(value: string): string {
+	return value.replace(/[/\\]/g, "_");
+}
+
+// Documents from older firmware have no created time; their modified time
+// is the closest stand-in.
+function createdDate(doc: DocumentMetadata): Date | null {
+	return dateOf(doc.createdTime) ?? dateOf(doc.modifiedTime);
+}
+
+// Millisecond timestamps as the tablet stores them; null when unset.
+function dateOf(value: string | undefined): Date | null {
+	const ms = Number(value);
+	return ms ? new Date(ms) : null;
+}
+
+// Dates are in local time, as the tablet shows them. No date, no text.
+function formatDate(date: Date | null, format: string): string {
+	if (!date) return "";
+	const pad = (n: number) => String(n).padStart(2, "0");
+	return format
+		.replace(/yyyy/g, String(date.getFullYear()))
+		.replace(/mm/g, pad(date.getMonth() + 1))
+		.replace(/dd/g, pad(date.getDate()));
+}
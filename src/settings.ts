@@ -1,33 +1,195 @@
-import { App, Notice, PluginSettingTab, Setting } from "obsidian";
+import { App, Notice, PluginSettingTab, Setting, debounce } from "obsidian";
 import type RemarkableSyncPlugin from "./main";
-import { SYNC_INTERVALS, AUTH_URL, DEFAULT_SUBFOLDER, SYNC_LOG_FILENAME } from "./constants";
+import {
+	SYNC_INTERVALS,
+	AUTH_URL,
+	DEFAULT_SUBFOLDER,
+	SYNC_LOG_FILENAME,
+	SYNC_LOG_HISTORY,
+	SYNC_REPORT_FILENAME,
+	ARCHIVE_FOLDER,
+} from "./constants";
+import { AUTH_HOST, DEFAULT_FETCH_CONCURRENCY, normalizeHost } from "./cloud-client";
+import { DEFAULT_BLOB_CACHE_BYTES } from "./blob-cache";
+import type { DocumentFileType } from "./cloud-client";
+import {
+	type ConflictPolicy,
+	type DocumentSelection,
+	type OutputFormat,
+	type RemovalPolicy,
+	DEFAULT_CONVERSION_CONCURRENCY,
+	DEFAULT_DOCUMENT_CONCURRENCY,
+	DEFAULT_QUARANTINE_AFTER,
+} from "./sync-manager";
+import { DEFAULT_PATH_TEMPLATE, PATH_TEMPLATE_TOKENS } from "./path-template";
+import type { SyncRules } from "./sync-rules";
 
-export interface RemarkableSyncSettings {
+// Host fields are applied once typing pauses: applying rebuilds the client
+// and re-reads its token file, and a half-typed host is of no use.
+const HOST_APPLY_DELAY_MS = 1000;
+
+/** Where documents are synced from. */
+export type DocumentSourceKind = "cloud" | "local";
+
+/**
+ * One reMarkable folder synced into one vault folder. All enabled profiles
+ * sync together in a single pass.
+ */
+export interface SyncProfile {
+	/** Stable identifier; names can change. */
+	id: string;
+	name: string;
+	enabled: boolean;
+	/** reMarkable folder synced with its subfolders; empty = the whole library. */
+	remoteFolder: string;
+	/** reMarkable folders left out, with their subfolders. */
+	excludeFolders: string[];
+	/** Vault folder the files are written to. */
 	subfolder: string;
+	/** Path of each document below the vault folder; see path-template. */
+	pathTemplate: string;
+	/** Include/exclude rules applied on top of the folders above. */
+	rules: SyncRules;
+	outputFormats: OutputFormat[];
+	/** Key of SYNC_INTERVALS. */
 	syncIntervalLabel: string;
-	folderFilter: string;
+}
+
+export interface RemarkableSyncSettings {
+	profiles: SyncProfile[];
+	/** Library picker choices by document id; unpicked documents follow the rules. */
+	documentSelections: Record<string, DocumentSelection>;
+	documentSource: DocumentSourceKind;
+	/** Copy of the tablet's xochitl directory, used when documentSource is "local". */
+	localLibraryPath: string;
+	/** What happens to the PDF of a document deleted on the tablet or left out of the sync. */
+	removalPolicy: RemovalPolicy;
+	/** What happens when a synced PDF was edited in the vault. */
+	conflictPolicy: ConflictPolicy;
 	lastSyncTime: string;
 	isAuthenticated: boolean;
 	writeSyncLog: boolean;
+	/** Also write each run to the JSON report. */
+	writeSyncReport: boolean;
+	/** Runs kept in the sync log and the JSON report. */
+	syncLogHistory: number;
+	/** Failures in a row after which a document is no longer synced. */
+	quarantineAfter: number;
+	fetchConcurrency: number;
+	/** Documents downloaded at once during a sync. */
+	documentConcurrency: number;
+	/** Documents rendered to PDF at once during a sync. */
+	conversionConcurrency: number;
+	/** Download cache size limit in megabytes; 0 disables the cache. */
+	blobCacheSizeMb: number;
+	/** Self-hosted auth server (e.g. rmfakecloud); empty = reMarkable cloud. */
+	authHost: string;
+	/** Self-hosted sync server; empty = same as authHost, or the reMarkable cloud. */
+	syncHost: string;
+	/** Ask the auth server for the sync host before syncing. */
+	discoverSyncHost: boolean;
 }
 
 export const DEFAULT_SETTINGS: RemarkableSyncSettings = {
-	subfolder: DEFAULT_SUBFOLDER,
-	syncIntervalLabel: "Manual only",
-	folderFilter: "",
+	profiles: [],
+	documentSelections: {},
+	documentSource: "cloud",
+	localLibraryPath: "",
+	removalPolicy: "keep",
+	conflictPolicy: "conflict-copy",
 	lastSyncTime: "",
 	isAuthenticated: false,
 	writeSyncLog: true,
+	writeSyncReport: true,
+	syncLogHistory: SYNC_LOG_HISTORY,
+	quarantineAfter: DEFAULT_QUARANTINE_AFTER,
+	fetchConcurrency: DEFAULT_FETCH_CONCURRENCY,
+	documentConcurrency: DEFAULT_DOCUMENT_CONCURRENCY,
+	conversionConcurrency: DEFAULT_CONVERSION_CONCURRENCY,
+	blobCacheSizeMb: DEFAULT_BLOB_CACHE_BYTES / (1024 * 1024),
+	authHost: "",
+	syncHost: "",
+	discoverSyncHost: false,
+};
+
+export function newSyncProfile(fields: Partial<SyncProfile> = {}): SyncProfile {
+	return {
+		id: Date.now().toString(36) + Math.random().toString(36).substring(2, 6),
+		name: "reMarkable",
+		enabled: true,
+		remoteFolder: "",
+		excludeFolders: [],
+		rules: {},
+		subfolder: DEFAULT_SUBFOLDER,
+		pathTemplate: DEFAULT_PATH_TEMPLATE,
+		outputFormats: ["pdf"],
+		syncIntervalLabel: "Manual only",
+		...fields,
+	};
+}
+
+// Settings saved before profiles existed held a single mapping.
+const LEGACY_KEYS = ["subfolder", "folderFilter", "syncIntervalLabel"];
+
+/**
+ * Saved plugin data brought up to date: the old subfolder, folder filter and
+ * interval become the first profile, and saved profiles gain any fields added
+ * since. Fresh installs get a default profile.
+ */
+export function migrateSettings(data: Record<string, any> | null): Partial<RemarkableSyncSettings> {
+	const migrated: Record<string, any> = {};
+	for (const [key, value] of Object.entries(data ?? {})) {
+		if (!LEGACY_KEYS.includes(key)) migrated[key] = value;
+	}
+	if (!Array.isArray(migrated.profiles)) {
+		migrated.profiles = [newSyncProfile({
+			id: "default",
+			subfolder: data?.subfolder || DEFAULT_SUBFOLDER,
+			remoteFolder: data?.folderFilter ?? "",
+			syncIntervalLabel: data?.syncIntervalLabel ?? "Manual only",
+		})];
+	}
+	migrated.profiles = migrated.profiles.map((profile: Partial<SyncProfile>) => newSyncProfile(profile));
+	return migrated;
+}
+
+const TYPE_CHOICES: Record<string, DocumentFileType[]> = {
+	all: [],
+	notebook: ["notebook"],
+	pdf: ["pdf"],
+	epub: ["epub"],
+	imported: ["pdf", "epub"],
+};
+
+const FORMAT_CHOICES: Record<string, OutputFormat[]> = {
+	pdf: ["pdf"],
+	original: ["original"],
+	both: ["pdf", "original"],
 };
 
 export class RemarkableSyncSettingTab extends PluginSettingTab {
 	plugin: RemarkableSyncPlugin;
+	private hostsEdited = false;
+	private applyHosts = debounce(() => void this.applyHostsNow(), HOST_APPLY_DELAY_MS, true);
 
 	constructor(app: App, plugin: RemarkableSyncPlugin) {
 		super(app, plugin);
 		this.plugin = plugin;
 	}
 
+	hide(): void {
+		// Don't leave a host edit unapplied when the settings close.
+		if (!this.hostsEdited) return;
+		this.applyHosts.cancel();
+		void this.applyHostsNow();
+	}
+
+	private async applyHostsNow(): Promise<void> {
+		this.hostsEdited = false;
+		await this.plugin.applyCloudHosts();
+		await this.plugin.saveSettings();
+	}
+
 	display(): void {
 		const { containerEl } = this;
 		containerEl.empty();
@@ -98,55 +260,205 @@ export class RemarkableSyncSettingTab extends PluginSettingTab {
 			authSetting.setDesc("Already connected. Only use this to re-register with a new code.");
 		}
 
+		// Self-hosted servers hand out codes from their own web UI.
+		const customHost = normalizeHost(this.plugin.settings.authHost);
 		const linkEl = containerEl.createEl("p");
 		linkEl.createEl("a", {
 			text: "Get your one-time code here",
-			href: AUTH_URL,
+			href: customHost ?? AUTH_URL,
 		});
 
-		// --- Sync ---
-		new Setting(containerEl).setName("Sync").setHeading();
+		new Setting(containerEl)
+			.setName("Auth server")
+			.setDesc(`Leave empty for the reMarkable cloud (${AUTH_HOST}). Set this to your own server, such as rmfakecloud, then register with a code from that server.`)
+			.addText((text) =>
+				text
+					.setPlaceholder("https://rmfakecloud.example.com")
+					.setValue(this.plugin.settings.authHost)
+					.onChange(async (value) => {
+						this.plugin.settings.authHost = value.trim();
+						await this.plugin.saveSettings();
+						this.hostsEdited = true;
+						this.applyHosts();
+					})
+			);
 
 		new Setting(containerEl)
-			.setName("Subfolder")
-			.setDesc("Subfolder within your vault where synced documents are saved.")
+			.setName("Sync server")
+			.setDesc("Leave empty to use the auth server (or the reMarkable cloud when that is empty too).")
 			.addText((text) =>
 				text
-					.setPlaceholder(DEFAULT_SUBFOLDER)
-					.setValue(this.plugin.settings.subfolder)
+					.setPlaceholder("Same as auth server")
+					.setValue(this.plugin.settings.syncHost)
+					.onChange(async (value) => {
+						this.plugin.settings.syncHost = value.trim();
+						await this.plugin.saveSettings();
+						this.hostsEdited = true;
+						this.applyHosts();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Discover sync server")
+			.setDesc("Ask the auth server which sync server to use before each session's first sync, unless a sync server is set above.")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.discoverSyncHost)
+					.onChange(async (value) => {
+						this.plugin.settings.discoverSyncHost = value;
+						await this.plugin.applyCloudHosts();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// --- Sync ---
+		new Setting(containerEl).setName("Sync").setHeading();
+
+		new Setting(containerEl)
+			.setName("Source")
+			.setDesc("Sync from the reMarkable cloud, or from a copy of the tablet's xochitl folder (for example an rsync backup).")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("cloud", "reMarkable cloud")
+					.addOption("local", "Local xochitl folder")
+					.setValue(this.plugin.settings.documentSource)
 					.onChange(async (value) => {
-						this.plugin.settings.subfolder = value || DEFAULT_SUBFOLDER;
+						this.plugin.settings.documentSource = value as DocumentSourceKind;
 						await this.plugin.saveSettings();
+						this.display(); // Show or hide the folder setting
 					})
 			);
 
+		if (this.plugin.settings.documentSource === "local") {
+			new Setting(containerEl)
+				.setName("Xochitl folder")
+				.setDesc("Absolute path to the copied ~/.local/share/remarkable/xochitl directory.")
+				.addText((text) =>
+					text
+						.setPlaceholder("/home/me/remarkable-backup/xochitl")
+						.setValue(this.plugin.settings.localLibraryPath)
+						.onChange(async (value) => {
+							this.plugin.settings.localLibraryPath = value.trim();
+							await this.plugin.saveSettings();
+						})
+				);
+		}
+
+		new Setting(containerEl)
+			.setName("Choose documents")
+			.setDesc("Pick documents in your library to always sync, never sync or sync once, whatever the profile rules say.")
+			.addButton((btn) =>
+				btn.setButtonText("Open library").onClick(() => this.plugin.openLibraryPicker())
+			);
+
 		new Setting(containerEl)
-			.setName("Folder filter")
-			.setDesc("Only sync documents from this reMarkable folder. Leave empty for all.")
+			.setName("Deleted documents")
+			.setDesc("What to do with the PDF when a document is deleted or trashed on your reMarkable, or no longer matches the folders and rules this profile syncs. Renamed and moved documents are always moved to match.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("archive", `Move to "${ARCHIVE_FOLDER}" folder`)
+					.addOption("delete", "Delete the PDF")
+					.addOption("keep", "Keep the PDF")
+					.setValue(this.plugin.settings.removalPolicy)
+					.onChange(async (value) => {
+						this.plugin.settings.removalPolicy = value as RemovalPolicy;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Edited PDFs")
+			.setDesc("What to do when a synced PDF was changed in the vault (for example annotated in Obsidian) and the document changes on your reMarkable. Your edited file is never overwritten.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("conflict-copy", "Save the new version as a conflict copy")
+					.addOption("skip", "Skip the new version")
+					.setValue(this.plugin.settings.conflictPolicy)
+					.onChange(async (value) => {
+						this.plugin.settings.conflictPolicy = value as ConflictPolicy;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Parallel downloads")
+			.setDesc("How many files to fetch from the reMarkable cloud at once. Lower this if syncs hit network errors.")
+			.addSlider((slider) =>
+				slider
+					.setLimits(1, 16, 1)
+					.setValue(this.plugin.settings.fetchConcurrency)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.fetchConcurrency = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Documents in parallel")
+			.setDesc("How many documents to download at once. Files are still written one document at a time, in order.")
+			.addSlider((slider) =>
+				slider
+					.setLimits(1, 8, 1)
+					.setValue(this.plugin.settings.documentConcurrency)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.documentConcurrency = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Parallel conversions")
+			.setDesc("How many documents to render to PDF at once. Lower this if Obsidian becomes sluggish during big syncs.")
+			.addSlider((slider) =>
+				slider
+					.setLimits(1, 8, 1)
+					.setValue(this.plugin.settings.conversionConcurrency)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.conversionConcurrency = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Download cache size (MB)")
+			.setDesc("Downloaded files are cached outside the vault so unchanged pages are never fetched twice. Set to 0 to disable.")
 			.addText((text) =>
 				text
-					.setPlaceholder("e.g., Work Notes")
-					.setValue(this.plugin.settings.folderFilter)
+					.setPlaceholder(String(DEFAULT_SETTINGS.blobCacheSizeMb))
+					.setValue(String(this.plugin.settings.blobCacheSizeMb))
 					.onChange(async (value) => {
-						this.plugin.settings.folderFilter = value;
+						const mb = parseInt(value, 10);
+						this.plugin.settings.blobCacheSizeMb = Number.isFinite(mb) && mb >= 0
+							? mb
+							: DEFAULT_SETTINGS.blobCacheSizeMb;
 						await this.plugin.saveSettings();
+						this.plugin.configureBlobCache();
 					})
 			);
 
+		// --- Sync profiles ---
 		new Setting(containerEl)
-			.setName("Auto-sync interval")
-			.setDesc("How often to automatically sync documents from your reMarkable.")
-			.addDropdown((dropdown) => {
-				for (const label of Object.keys(SYNC_INTERVALS)) {
-					dropdown.addOption(label, label);
-				}
-				dropdown.setValue(this.plugin.settings.syncIntervalLabel);
-				dropdown.onChange(async (value) => {
-					this.plugin.settings.syncIntervalLabel = value;
-					await this.plugin.saveSettings();
-					this.plugin.restartAutoSync();
-				});
-			});
+			.setName("Sync profiles")
+			.setDesc("Each profile syncs one reMarkable folder into one vault folder. Enabled profiles sync together, sharing one listing of your library.")
+			.setHeading();
+
+		for (const profile of this.plugin.settings.profiles) {
+			this.displayProfile(containerEl, profile);
+		}
+
+		new Setting(containerEl).addButton((btn) =>
+			btn.setButtonText("Add profile").onClick(async () => {
+				const n = this.plugin.settings.profiles.length + 1;
+				this.plugin.settings.profiles.push(
+					newSyncProfile({ name: `Profile ${n}`, subfolder: `${DEFAULT_SUBFOLDER} ${n}` })
+				);
+				await this.plugin.saveSettings();
+				this.display();
+			})
+		);
 
 		// --- Status ---
 		new Setting(containerEl).setName("Status").setHeading();
@@ -159,6 +471,24 @@ export class RemarkableSyncSettingTab extends PluginSettingTab {
 					: "Never"
 			);
 
+		const account = isAuth ? this.plugin.accountInfo : null;
+		if (account) {
+			new Setting(containerEl)
+				.setName("Account")
+				.setDesc(account.email ?? account.userId ?? "Unknown");
+
+			new Setting(containerEl)
+				.setName("Access token expires")
+				.setDesc(account.expiresAt ? account.expiresAt.toLocaleString() : "Unknown");
+
+			const protocol = account.syncVersion === "sync15"
+				? " (sync 1.5)"
+				: account.syncVersion === "sync10" ? " (legacy sync 1.0)" : "";
+			new Setting(containerEl)
+				.setName("Scopes")
+				.setDesc((account.scopes.join(", ") || "None") + protocol);
+		}
+
 		new Setting(containerEl)
 			.setName("Check status")
 			.setDesc("Check current authentication status.")
@@ -175,7 +505,7 @@ export class RemarkableSyncSettingTab extends PluginSettingTab {
 		new Setting(containerEl)
 			.setName("Write sync log")
 			.setDesc(
-				`Save a detailed log of each sync (including any errors) to "${this.plugin.settings.subfolder}/${SYNC_LOG_FILENAME}". Useful for diagnosing sync failures.`
+				`Save a detailed log of each sync (including any errors) to "${SYNC_LOG_FILENAME}" in each profile's vault folder. Useful for diagnosing sync failures.`
 			)
 			.addToggle((toggle) =>
 				toggle
@@ -186,6 +516,50 @@ export class RemarkableSyncSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Write JSON sync report")
+			.setDesc(
+				`Also save each sync as JSON to "${SYNC_REPORT_FILENAME}": every document synced, left out or failed, with timings and bytes transferred. Handy for tracking failures across machines.`
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.writeSyncReport)
+					.onChange(async (value) => {
+						this.plugin.settings.writeSyncReport = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Sync history")
+			.setDesc("How many syncs the log and the JSON report keep. Older syncs are dropped whole.")
+			.addSlider((slider) =>
+				slider
+					.setLimits(1, 100, 1)
+					.setValue(this.plugin.settings.syncLogHistory)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.syncLogHistory = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Quarantine after failures")
+			.setDesc(
+				'A document that fails to sync is retried after a wait that doubles with each failure. After this many failures in a row it is skipped until you retry it from "Show quarantined documents" or it changes on the tablet.'
+			)
+			.addSlider((slider) =>
+				slider
+					.setLimits(1, 20, 1)
+					.setValue(this.plugin.settings.quarantineAfter)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.quarantineAfter = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
 		new Setting(containerEl)
 			.setName("Open sync log")
 			.setDesc("Open the most recent sync log to review details and errors.")
@@ -211,4 +585,219 @@ export class RemarkableSyncSettingTab extends PluginSettingTab {
 			},
 		});
 	}
+
+	private displayProfile(containerEl: HTMLElement, profile: SyncProfile): void {
+		const save = async () => {
+			await this.plugin.saveSettings();
+			this.plugin.restartAutoSync();
+		};
+
+		const header = new Setting(containerEl)
+			.setName(profile.name || "Unnamed profile")
+			.setDesc(`${profile.remoteFolder || "Whole library"} → ${profile.subfolder || "vault root"}`)
+			.addToggle((toggle) =>
+				toggle
+					.setTooltip("Enabled")
+					.setValue(profile.enabled)
+					.onChange(async (value) => {
+						profile.enabled = value;
+						await save();
+					})
+			);
+		if (this.plugin.settings.profiles.length > 1) {
+			header.addExtraButton((btn) =>
+				btn
+					.setIcon("trash")
+					.setTooltip("Remove profile")
+					.onClick(async () => {
+						this.plugin.settings.profiles.remove(profile);
+						await save();
+						this.display();
+					})
+			);
+		}
+
+		new Setting(containerEl)
+			.setName("Name")
+			.addText((text) =>
+				text.setValue(profile.name).onChange(async (value) => {
+					profile.name = value;
+					await save();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName("reMarkable folder")
+			.setDesc("Sync this folder and its subfolders. Leave empty for the whole library.")
+			.addText((text) =>
+				text
+					.setPlaceholder("e.g., Work/Meetings")
+					.setValue(profile.remoteFolder)
+					.onChange(async (value) => {
+						profile.remoteFolder = value;
+						await save();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Excluded folders")
+			.setDesc("reMarkable folders to leave out, with their subfolders. One per line.")
+			.addTextArea((text) =>
+				text
+					.setPlaceholder("Work/Archive")
+					.setValue(profile.excludeFolders.join("\n"))
+					.onChange(async (value) => {
+						profile.excludeFolders = splitLines(value);
+						await save();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Include patterns")
+			.setDesc("Only sync documents whose reMarkable path matches one of these patterns, one per line. * matches within a folder, ** across folders, and a folder covers everything in it. Leave empty for all.")
+			.addTextArea((text) =>
+				text
+					.setPlaceholder("Work/**/Meeting*")
+					.setValue((profile.rules.include ?? []).join("\n"))
+					.onChange(async (value) => {
+						profile.rules.include = splitLines(value);
+						await save();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Exclude patterns")
+			.setDesc("Leave out documents whose reMarkable path matches one of these patterns, one per line.")
+			.addTextArea((text) =>
+				text
+					.setPlaceholder("**/Scratch*")
+					.setValue((profile.rules.exclude ?? []).join("\n"))
+					.onChange(async (value) => {
+						profile.rules.exclude = splitLines(value);
+						await save();
+					})
+			);
+
+		const types = profile.rules.types ?? [];
+		new Setting(containerEl)
+			.setName("Document types")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("all", "All documents")
+					.addOption("notebook", "Notebooks")
+					.addOption("pdf", "PDFs")
+					.addOption("epub", "EPUBs")
+					.addOption("imported", "PDFs and EPUBs")
+					.setValue(
+						Object.keys(TYPE_CHOICES).find((key) => TYPE_CHOICES[key].join() === types.join()) ?? "all"
+					)
+					.onChange(async (value) => {
+						profile.rules.types = TYPE_CHOICES[value];
+						await save();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Pinned only")
+			.setDesc("Only sync documents marked as favourites on your reMarkable.")
+			.addToggle((toggle) =>
+				toggle.setValue(profile.rules.pinnedOnly ?? false).onChange(async (value) => {
+					profile.rules.pinnedOnly = value;
+					await save();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName("Tags")
+			.setDesc("Only sync documents with at least one of these tags, separated by commas. Leave empty for all.")
+			.addText((text) =>
+				text
+					.setPlaceholder("work, research")
+					.setValue((profile.rules.tags ?? []).join(", "))
+					.onChange(async (value) => {
+						profile.rules.tags = value.split(",").map((tag) => tag.trim()).filter((tag) => tag);
+						await save();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Modified since")
+			.setDesc("Only sync documents changed on or after this date. Leave empty for all.")
+			.addText((text) =>
+				text
+					.setPlaceholder("2024-01-31")
+					.setValue(profile.rules.modifiedSince ?? "")
+					.onChange(async (value) => {
+						profile.rules.modifiedSince = value.trim();
+						await save();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Vault folder")
+			.setDesc("Where this profile's files are saved. Each profile needs its own folder.")
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SUBFOLDER)
+					.setValue(profile.subfolder)
+					.onChange(async (value) => {
+						profile.subfolder = value.trim();
+						await save();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("File path template")
+			.setDesc(
+				`Where each document goes inside the vault folder, without ".pdf". Tokens: ${PATH_TEMPLATE_TOKENS.join(", ")}; ` +
+					"dates can take a format, as in {modified:yyyy-mm}, and {yyyy}, {mm} and {dd} come from the created date. " +
+					"Changing the template moves files already synced on the next sync."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_PATH_TEMPLATE)
+					.setValue(profile.pathTemplate)
+					.onChange(async (value) => {
+						profile.pathTemplate = value.trim();
+						await save();
+					})
+			);
+
+		const formatChoice = profile.outputFormats.includes("original")
+			? profile.outputFormats.includes("pdf") ? "both" : "original"
+			: "pdf";
+		new Setting(containerEl)
+			.setName("Output")
+			.setDesc("Imported PDFs and EPUBs can also be saved as the original file. Notebooks are always rendered to PDF.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("pdf", "Annotated PDF")
+					.addOption("original", "Original PDF or EPUB")
+					.addOption("both", "Both")
+					.setValue(formatChoice)
+					.onChange(async (value) => {
+						profile.outputFormats = FORMAT_CHOICES[value];
+						await save();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Auto-sync interval")
+			.setDesc("How often to sync this profile automatically.")
+			.addDropdown((dropdown) => {
+				for (const label of Object.keys(SYNC_INTERVALS)) {
+					dropdown.addOption(label, label);
+				}
+				dropdown.setValue(profile.syncIntervalLabel);
+				dropdown.onChange(async (value) => {
+					profile.syncIntervalLabel = value;
+					await save();
+				});
+			});
+	}
+}
+
+// One entry per non-blank line.
+function splitLines(value: string): string[] {
+	return value.split("\n").map((line) => line.trim()).filter((line) => line);
 }
@@ -0,0 +1,798 @@
+/**
+ * End-to-end sync tests against the in-process mock cloud.
+ *
+ * Drives a real RemarkableCloudClient and SyncManager through registration,
+ * listing, download, conversion and PDF writing, using the notebooks in
+ * reference_sheets/ as the cloud library.
+ *
+ * Run: npx tsx --test src/sync-integration.test.ts
+ */
+import test from "node:test";
+import assert from "node:assert/strict";
+import { PDFDocument } from "pdf-lib";
+import { RemarkableCloudClient, type FileOps } from "./cloud-client";
+import { SyncManager, SyncState } from "./sync-manager";
+import { BlobCache } from "./blob-cache";
+import { RENDERER_VERSION, convertDocument } from "./document-converter";
+import { loadReferenceLibrary, type MockCloud } from "./mock-cloud";
+import { SYNC_LOG_FILENAME } from "./constants";
+
+const PAGES_DOC = "b7d19d8b-8ecc-43a8-a79e-c024c29eab11";
+const TEXT_DOC = "22bf5fc4-dca3-4ff3-8ebb-2b7c50dd1875";
+const SHEETS_FOLDER = "a8d437f0-64ee-4856-9391-25fcc31fb2d1";
+
+/** In-memory FileOps keeping text and binary files apart. */
+function memoryFileOps(): { ops: FileOps; files: Map<string, string | Uint8Array> } {
+	const files = new Map<string, string | Uint8Array>();
+	const ops: FileOps = {
+		readFile: async (p) => {
+			const v = files.get(p);
+			return typeof v === "string" ? v : null;
+		},
+		readBinaryFile: async (p) => {
+			const v = files.get(p);
+			return v instanceof Uint8Array ? v : null;
+		},
+		writeFile: async (p, data) => {
+			files.set(p, data);
+		},
+		writeBinaryFile: async (p, data) => {
+			files.set(p, data);
+		},
+		mkdir: async () => {},
+		exists: async (p) => files.has(p),
+		remove: async (p) => {
+			files.delete(p);
+		},
+		rename: async (from, to) => {
+			const data = files.get(from);
+			if (data === undefined) throw new Error(`No such file: ${from}`);
+			files.set(to, data);
+			files.delete(from);
+		},
+	};
+	return { ops, files };
+}
+
+async function registeredClient(cloud: MockCloud): Promise<RemarkableCloudClient> {
+	const client = new RemarkableCloudClient("/cfg", memoryFileOps().ops, cloud.fetch);
+	client.retryPolicy = { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 0, timeoutMs: 5000 };
+	await client.init();
+	assert.equal(await client.registerDevice("mock-code"), true);
+	assert.equal(await client.refreshUserToken(), true);
+	return client;
+}
+
+function pdfPaths(files: Map<string, string | Uint8Array>): string[] {
+	return Array.from(files.keys()).filter((p) => p.endsWith(".pdf")).sort();
+}
+
+test("a full sync converts every reference notebook into the vault", async () => {
+	const cloud = loadReferenceLibrary();
+	const client = await registeredClient(cloud);
+	const { ops, files } = memoryFileOps();
+	const manager = new SyncManager("", "reMarkable", ops, new SyncState());
+
+	const results = await manager.sync(client, { writeLog: false });
+
+	assert.deepEqual(results.errors, []);
+	const documentCount = cloud.documents.size - 1; // minus the folder
+	assert.equal(results.synced.length, documentCount);
+	assert.equal(pdfPaths(files).length, documentCount);
+	assert.ok(files.has("reMarkable/Reference Sheets/Pages.pdf"));
+
+	const pages = await PDFDocument.load(files.get("reMarkable/Reference Sheets/Pages.pdf") as Uint8Array);
+	assert.equal(pages.getPageCount(), 4);
+});
+
+test("a second sync of an unchanged library makes a single sync request", async () => {
+	const cloud = loadReferenceLibrary();
+	const client = await registeredClient(cloud);
+	const { ops } = memoryFileOps();
+	const manager = new SyncManager("", "reMarkable", ops, new SyncState());
+	await manager.sync(client, { writeLog: false });
+
+	const before = cloud.requests.length;
+	const results = await manager.sync(client, { writeLog: false });
+
+	assert.equal(results.synced.length, 0);
+	assert.deepEqual(
+		cloud.requests.slice(before).map((r) => `${r.method} ${r.path}`),
+		["GET /sync/v3/root"]
+	);
+});
+
+test("only documents whose version changed are downloaded again", async () => {
+	const cloud = loadReferenceLibrary();
+	const client = await registeredClient(cloud);
+	const { ops } = memoryFileOps();
+	const manager = new SyncManager("", "reMarkable", ops, new SyncState());
+	await manager.sync(client, { writeLog: false });
+
+	// Bumping the entry's file count stands in for a new cloud version.
+	const textDoc = cloud.documents.get(TEXT_DOC)!;
+	textDoc.files.set(`${TEXT_DOC}.pagedata`, new TextEncoder().encode("Blank\n"));
+	cloud.putDocument(textDoc);
+
+	const results = await manager.sync(client, { writeLog: false });
+	assert.deepEqual(results.synced, ["Reference Sheets/Text"]);
+});
+
+test("injected transient faults are retried and recorded in the log", async () => {
+	const cloud = loadReferenceLibrary();
+	const client = await registeredClient(cloud);
+	cloud.injectFault({ match: "/sync/v3/root", status: 429, retryAfter: "0", times: 1 });
+	cloud.injectFault({ match: `${PAGES_DOC}.content`, error: "socket hang up", times: 1 });
+
+	const { ops } = memoryFileOps();
+	const results = await new SyncManager("", "reMarkable", ops, new SyncState())
+		.sync(client, { writeLog: false });
+
+	assert.deepEqual(results.errors, []);
+	assert.ok(results.log.some((l) => l.includes("[retry] GET root: HTTP 429")));
+	assert.ok(results.log.some((l) => l.includes("socket hang up")));
+});
+
+test("a document whose blobs keep failing errors without stopping the others", async () => {
+	const cloud = loadReferenceLibrary();
+	const client = await registeredClient(cloud);
+	const { ops } = memoryFileOps();
+	const manager = new SyncManager("", "reMarkable", ops, new SyncState());
+
+	// Let the listing through, then break every page blob of one notebook.
+	await client.listDocuments();
+	cloud.injectFault({ match: `${PAGES_DOC}/`, status: 500 });
+
+	const results = await manager.sync(client, { writeLog: false });
+
+	assert.equal(results.errorDetails.length, 1);
+	assert.equal(results.errorDetails[0].docId, PAGES_DOC);
+	assert.match(results.errorDetails[0].message, /HTTP 500/);
+	assert.equal(results.synced.length, cloud.documents.size - 2);
+});
+
+test("a document uploaded through the client shows up in the cloud listing", async () => {
+	const cloud = loadReferenceLibrary();
+	const client = await registeredClient(cloud);
+
+	const pdf = await PDFDocument.create();
+	pdf.addPage([612, 792]);
+	const docId = await client.uploadDocument("Uploaded Paper", new Uint8Array(await pdf.save()), "pdf");
+	assert.ok(cloud.documents.has(docId));
+
+	// A fresh client sees the new root and lists the upload next to the sheets.
+	const reader = await registeredClient(cloud);
+	const docs = await reader.listDocuments();
+	assert.equal(docs.find((d) => d.id === docId)?.name, "Uploaded Paper");
+	assert.equal(docs.length, cloud.documents.size);
+});
+
+test("renames and moves on the tablet move the synced PDF", async () => {
+	const cloud = loadReferenceLibrary();
+	const client = await registeredClient(cloud);
+	const { ops, files } = memoryFileOps();
+	const state = new SyncState();
+	const manager = new SyncManager("", "reMarkable", ops, state);
+	await manager.sync(client, { writeLog: false });
+	const before = files.get("reMarkable/Reference Sheets/Text.pdf");
+
+	cloud.updateMetadata(TEXT_DOC, { visibleName: "Typed Text", parent: "" });
+	const results = await manager.sync(client);
+
+	assert.deepEqual(results.fileOperations, [{
+		action: "moved",
+		docId: TEXT_DOC,
+		from: "reMarkable/Reference Sheets/Text.pdf",
+		to: "reMarkable/Typed Text.pdf",
+	}]);
+	assert.ok(!files.has("reMarkable/Reference Sheets/Text.pdf"));
+	assert.equal(files.get("reMarkable/Typed Text.pdf"), before);
+	assert.equal(state.syncedDocs[TEXT_DOC].path, "reMarkable/Typed Text.pdf");
+	const log = files.get(`reMarkable/${SYNC_LOG_FILENAME}`) as string;
+	assert.ok(log.includes("### File operations (1)"));
+	assert.ok(log.includes("- Moved: `reMarkable/Reference Sheets/Text.pdf` → `reMarkable/Typed Text.pdf`"));
+});
+
+test("deleted documents are archived, deleted or kept per the removal policy", async () => {
+	const cloud = loadReferenceLibrary();
+	const client = await registeredClient(cloud);
+	const { ops, files } = memoryFileOps();
+	const state = new SyncState();
+	const manager = new SyncManager("", "reMarkable", ops, state);
+	await manager.sync(client, { writeLog: false });
+
+	// Trashed on the tablet, then archived.
+	cloud.updateMetadata(TEXT_DOC, { parent: "trash" });
+	let results = await manager.sync(client, { writeLog: false, removalPolicy: "archive" });
+	assert.equal(results.fileOperations[0].action, "archived");
+	assert.ok(files.has("reMarkable/_Archive/Reference Sheets/Text.pdf"));
+	assert.ok(!files.has("reMarkable/Reference Sheets/Text.pdf"));
+	assert.equal(state.syncedDocs[TEXT_DOC], undefined);
+
+	// Removed for good, then deleted.
+	cloud.removeDocument(PAGES_DOC);
+	results = await manager.sync(client, { writeLog: false, removalPolicy: "delete" });
+	assert.deepEqual(results.fileOperations.map((op) => op.action), ["deleted"]);
+	assert.ok(!files.has("reMarkable/Reference Sheets/Pages.pdf"));
+
+	// Kept: the file stays, but the document is no longer tracked.
+	const [keptId, kept] = Object.entries(state.syncedDocs)[0];
+	cloud.removeDocument(keptId);
+	results = await manager.sync(client, { writeLog: false, removalPolicy: "keep" });
+	assert.deepEqual(results.fileOperations.map((op) => op.action), ["kept"]);
+	assert.ok(files.has(kept.path));
+	assert.equal(state.syncedDocs[keptId], undefined);
+});
+
+test("a document moved out of the folder selection is removed, not moved", async () => {
+	const cloud = loadReferenceLibrary();
+	cloud.putFolder("work-folder", "Work");
+	const client = await registeredClient(cloud);
+	const { ops, files } = memoryFileOps();
+	const state = new SyncState();
+	const manager = new SyncManager("", "reMarkable", ops, state);
+	const options = { writeLog: false, folderFilter: "Reference Sheets", removalPolicy: "delete" as const };
+	await manager.sync(client, options);
+	const textPath = state.syncedDocs[TEXT_DOC].path;
+
+	cloud.updateMetadata(TEXT_DOC, { parent: "work-folder" });
+	const results = await manager.sync(client, options);
+
+	assert.deepEqual(results.fileOperations, [{
+		action: "deleted",
+		docId: TEXT_DOC,
+		from: textPath,
+		to: null,
+		rule: 'folder "Reference Sheets"',
+	}]);
+	assert.ok(!files.has(textPath));
+	assert.deepEqual(pdfPaths(files).filter((p) => p.includes("Work")), []);
+	assert.equal(state.syncedDocs[TEXT_DOC], undefined);
+	assert.ok(results.log.some((l) => l.includes(`Deleted (left out by folder "Reference Sheets"): ${textPath}`)));
+});
+
+test("a kept PDF is never overwritten by a new document with the same name", async () => {
+	const cloud = loadReferenceLibrary();
+	const client = await registeredClient(cloud);
+	const { ops, files } = memoryFileOps();
+	const state = new SyncState();
+	const manager = new SyncManager("", "reMarkable", ops, state);
+	await manager.sync(client, { writeLog: false });
+
+	const textPath = "reMarkable/Reference Sheets/Text.pdf";
+	const kept = files.get(textPath);
+	const textDoc = cloud.documents.get(TEXT_DOC)!;
+	cloud.removeDocument(TEXT_DOC);
+	await manager.sync(client, { writeLog: false, removalPolicy: "keep" });
+	assert.deepEqual(state.keptFiles, { [textPath]: TEXT_DOC });
+
+	// A new document takes the old name in a later sync.
+	cloud.putDocument(textDoc);
+	cloneDocument(cloud, TEXT_DOC, "00000000-aaaa-4aaa-8aaa-000000000001");
+	cloud.removeDocument(TEXT_DOC);
+	const results = await manager.sync(client, { writeLog: false, removalPolicy: "keep" });
+
+	assert.deepEqual(results.errors, []);
+	assert.equal(files.get(textPath), kept);
+	assert.equal(
+		state.syncedDocs["00000000-aaaa-4aaa-8aaa-000000000001"].path,
+		"reMarkable/Reference Sheets/Text (00000000).pdf"
+	);
+	assert.ok(files.has("reMarkable/Reference Sheets/Text (00000000).pdf"));
+
+	// Once the kept file is deleted, its path is free again.
+	files.delete(textPath);
+	await manager.sync(client, { writeLog: false });
+	assert.deepEqual(state.keptFiles, {});
+});
+
+test("a dry run reports file operations without applying them", async () => {
+	const cloud = loadReferenceLibrary();
+	const client = await registeredClient(cloud);
+	const { ops, files } = memoryFileOps();
+	const state = new SyncState();
+	const manager = new SyncManager("", "reMarkable", ops, state);
+	await manager.sync(client, { writeLog: false });
+
+	cloud.updateMetadata(TEXT_DOC, { visibleName: "Renamed" });
+	cloud.removeDocument(PAGES_DOC);
+	const results = await manager.sync(client, { writeLog: false, dryRun: true, removalPolicy: "delete" });
+
+	assert.deepEqual(results.fileOperations.map((op) => op.action).sort(), ["deleted", "moved"]);
+	assert.ok(results.log.some((l) => l.includes("[dry-run] Would apply: Moved:")));
+	assert.ok(files.has("reMarkable/Reference Sheets/Text.pdf"));
+	assert.ok(files.has("reMarkable/Reference Sheets/Pages.pdf"));
+	assert.equal(state.syncedDocs[TEXT_DOC].path, "reMarkable/Reference Sheets/Text.pdf");
+	assert.ok(state.syncedDocs[PAGES_DOC]);
+});
+
+test("a PDF edited in the vault is never overwritten by a newer version", async () => {
+	const cloud = loadReferenceLibrary();
+	const client = await registeredClient(cloud);
+	const { ops, files } = memoryFileOps();
+	const state = new SyncState();
+	const manager = new SyncManager("", "reMarkable", ops, state);
+	await manager.sync(client, { writeLog: false });
+
+	const textPath = "reMarkable/Reference Sheets/Text.pdf";
+	const edited = new TextEncoder().encode("%PDF annotated in Obsidian");
+	files.set(textPath, edited);
+	// Each extra file bumps the mock's version (its file count).
+	const bumpText = (name: string) => {
+		const doc = cloud.documents.get(TEXT_DOC)!;
+		doc.files.set(`${TEXT_DOC}.${name}`, new TextEncoder().encode("{}"));
+		cloud.putDocument(doc);
+	};
+
+	// Skip: nothing is written and the document stays pending.
+	bumpText("pagedata");
+	let results = await manager.sync(client, { writeLog: false, conflictPolicy: "skip" });
+	assert.deepEqual(results.conflicts, [{ docId: TEXT_DOC, path: textPath, action: "skipped", copyPath: null }]);
+	assert.deepEqual(results.synced, []);
+	assert.equal(files.get(textPath), edited);
+
+	// Conflict copy: the new version lands next to the edited file.
+	results = await manager.sync(client, { writeLog: false });
+	const copyPath = results.conflicts[0].copyPath!;
+	assert.match(copyPath, /^reMarkable\/Reference Sheets\/Text \(conflict \d{4}-\d{2}-\d{2}\)\.pdf$/);
+	assert.ok(files.get(copyPath) instanceof Uint8Array);
+	assert.equal(files.get(textPath), edited);
+	assert.equal(state.syncedDocs[TEXT_DOC].path, textPath);
+
+	// The edited file stays protected for later versions too.
+	bumpText("local");
+	results = await manager.sync(client, { writeLog: false });
+	assert.equal(results.conflicts.length, 1);
+	assert.notEqual(results.conflicts[0].copyPath, copyPath);
+	assert.equal(files.get(textPath), edited);
+});
+
+/** Copy a document under a new id, optionally changing its metadata. */
+function cloneDocument(cloud: MockCloud, fromId: string, newId: string, changes: Record<string, unknown> = {}): void {
+	const files = new Map<string, Uint8Array>();
+	for (const [name, data] of cloud.documents.get(fromId)!.files) {
+		files.set(name.split(fromId).join(newId), data);
+	}
+	cloud.putDocument({ id: newId, files });
+	cloud.updateMetadata(newId, changes);
+}
+
+test("documents with colliding names get stable id-suffixed paths", async () => {
+	const cloud = loadReferenceLibrary();
+	// Same folder, same name up to case; ids sort before and after TEXT_DOC.
+	cloneDocument(cloud, TEXT_DOC, "00000000-aaaa-4aaa-8aaa-000000000001");
+	cloneDocument(cloud, TEXT_DOC, "ffffffff-bbbb-4bbb-8bbb-000000000002", { visibleName: "TEXT" });
+	const client = await registeredClient(cloud);
+	const { ops, files } = memoryFileOps();
+	const state = new SyncState();
+	const manager = new SyncManager("", "reMarkable", ops, state);
+
+	const results = await manager.sync(client, { writeLog: false });
+	assert.deepEqual(results.errors, []);
+	assert.equal(state.syncedDocs["00000000-aaaa-4aaa-8aaa-000000000001"].path, "reMarkable/Reference Sheets/Text.pdf");
+	assert.equal(state.syncedDocs[TEXT_DOC].path, "reMarkable/Reference Sheets/Text (22bf5fc4).pdf");
+	assert.equal(state.syncedDocs["ffffffff-bbbb-4bbb-8bbb-000000000002"].path, "reMarkable/Reference Sheets/TEXT (ffffffff).pdf");
+	assert.equal(pdfPaths(files).filter((p) => /\/text/i.test(p)).length, 3);
+
+	// A forced re-sync writes every document to the same place again.
+	const before = JSON.stringify(Object.values(state.syncedDocs).map((d) => d.path));
+	const again = await manager.sync(client, { writeLog: false, force: true });
+	assert.deepEqual(again.fileOperations, []);
+	assert.equal(JSON.stringify(Object.values(state.syncedDocs).map((d) => d.path)), before);
+});
+
+test("a newcomer never takes an existing document's path", async () => {
+	const cloud = loadReferenceLibrary();
+	const client = await registeredClient(cloud);
+	const { ops } = memoryFileOps();
+	const state = new SyncState();
+	const manager = new SyncManager("", "reMarkable", ops, state);
+	await manager.sync(client, { writeLog: false });
+
+	// The new document's id sorts first, but Text already owns the plain name.
+	cloneDocument(cloud, TEXT_DOC, "00000000-aaaa-4aaa-8aaa-000000000001");
+	const results = await manager.sync(client, { writeLog: false });
+
+	assert.deepEqual(results.fileOperations, []);
+	assert.equal(state.syncedDocs[TEXT_DOC].path, "reMarkable/Reference Sheets/Text.pdf");
+	assert.equal(
+		state.syncedDocs["00000000-aaaa-4aaa-8aaa-000000000001"].path,
+		"reMarkable/Reference Sheets/Text (00000000).pdf"
+	);
+	assert.ok(results.log.some((l) => l.includes("Name collision: reMarkable/Reference Sheets/Text.pdf is taken")));
+});
+
+test("documents that shared one PDF under older versions are split apart", async () => {
+	const cloud = loadReferenceLibrary();
+	cloneDocument(cloud, TEXT_DOC, "ffffffff-bbbb-4bbb-8bbb-000000000002");
+	const client = await registeredClient(cloud);
+	const { ops, files } = memoryFileOps();
+	const state = new SyncState();
+	const manager = new SyncManager("", "reMarkable", ops, state);
+	await manager.sync(client, { writeLog: false });
+
+	// Simulate the old behaviour: both entries point at the same file.
+	const shared = state.syncedDocs[TEXT_DOC].path;
+	state.syncedDocs["ffffffff-bbbb-4bbb-8bbb-000000000002"].path = shared;
+	files.delete("reMarkable/Reference Sheets/Text (ffffffff).pdf");
+
+	const results = await manager.sync(client, { writeLog: false });
+	assert.deepEqual(results.synced.sort(), ["Reference Sheets/Text", "Reference Sheets/Text"]);
+	assert.ok(files.has("reMarkable/Reference Sheets/Text (ffffffff).pdf"));
+	assert.equal(state.syncedDocs[TEXT_DOC].path, shared);
+});
+
+test("unsafe tablet names are sanitised per segment and remembered", async () => {
+	const cloud = loadReferenceLibrary();
+	cloud.updateMetadata(SHEETS_FOLDER, { visibleName: "Sheets: 2024." });
+	cloud.updateMetadata(TEXT_DOC, { visibleName: "CON" });
+	const client = await registeredClient(cloud);
+	const { ops, files } = memoryFileOps();
+	const state = new SyncState();
+	const manager = new SyncManager("", "reMarkable", ops, state);
+
+	const results = await manager.sync(client, { writeLog: false });
+	assert.ok(results.synced.includes("Sheets: 2024./CON"));
+	assert.ok(files.has("reMarkable/Sheets_ 2024/CON_.pdf"));
+	assert.ok(files.has("reMarkable/Sheets_ 2024/Pages.pdf"));
+	assert.equal(state.originalName("reMarkable/Sheets_ 2024/CON_.pdf"), "Sheets: 2024./CON");
+	assert.equal(state.originalName("reMarkable/Sheets_ 2024"), "Sheets: 2024.");
+	assert.equal(state.originalName("reMarkable/Sheets_ 2024/Pages.pdf"), "Sheets: 2024./Pages");
+});
+
+test("a path template files documents and a new template moves them", async () => {
+	const cloud = loadReferenceLibrary();
+	cloud.updateMetadata(SHEETS_FOLDER, { visibleName: "Sheets: 2024." });
+	const client = await registeredClient(cloud);
+	const { ops, files } = memoryFileOps();
+	const state = new SyncState();
+	const manager = new SyncManager("", "reMarkable", ops, state);
+
+	let results = await manager.sync(client, { writeLog: false, pathTemplate: "Notes/{folder}/{type}-{name}" });
+	assert.deepEqual(results.errors, []);
+	assert.ok(files.has("reMarkable/Notes/Sheets_ 2024/notebook-Pages.pdf"));
+	assert.equal(state.syncedDocs[PAGES_DOC].path, "reMarkable/Notes/Sheets_ 2024/notebook-Pages.pdf");
+	assert.equal(state.originalName("reMarkable/Notes/Sheets_ 2024/notebook-Pages.pdf"), "Sheets: 2024./Pages");
+	assert.equal(state.originalName("reMarkable/Notes/Sheets_ 2024"), "Sheets: 2024.");
+
+	// A new template moves the synced files rather than downloading them again.
+	const metadata = JSON.parse(new TextDecoder().decode(cloud.documents.get(PAGES_DOC)!.files.get(`${PAGES_DOC}.metadata`)));
+	const year = new Date(Number(metadata.createdTime)).getFullYear();
+	results = await manager.sync(client, { writeLog: false, pathTemplate: "{yyyy}/{name}" });
+	assert.deepEqual(results.synced, []);
+	assert.ok(results.log.some((l) => l.includes('Path template changed from "Notes/{folder}/{type}-{name}" to "{yyyy}/{name}"')));
+	assert.ok(results.fileOperations.some((op) => op.docId === PAGES_DOC && op.to === `reMarkable/${year}/Pages.pdf`));
+	assert.ok(files.has(`reMarkable/${year}/Pages.pdf`));
+	assert.ok(!files.has("reMarkable/Notes/Sheets_ 2024/notebook-Pages.pdf"));
+	assert.equal(state.pathTemplate, "{yyyy}/{name}");
+
+	await assert.rejects(manager.sync(client, { writeLog: false, pathTemplate: "{title}" }), /Unknown path template token/);
+});
+
+test("documents from an older renderer are re-rendered from cached blobs", async () => {
+	const cloud = loadReferenceLibrary();
+	const client = await registeredClient(cloud);
+	client.cache = new BlobCache("/cache", memoryFileOps().ops);
+	const { ops, files } = memoryFileOps();
+	const state = new SyncState();
+	const manager = new SyncManager("", "reMarkable", ops, state);
+	await manager.sync(client, { writeLog: false });
+	assert.equal(state.syncedDocs[TEXT_DOC].rendererVersion, RENDERER_VERSION);
+
+	// Synced before the renderer was stamped: counted as version 1, so
+	// upgrading alone re-renders nothing.
+	delete state.syncedDocs[TEXT_DOC].rendererVersion;
+	assert.deepEqual((await manager.sync(client, { writeLog: false })).synced, []);
+
+	// As if Text was synced by an older renderer.
+	state.syncedDocs[TEXT_DOC].rendererVersion = RENDERER_VERSION - 1;
+	files.delete("reMarkable/Reference Sheets/Text.pdf");
+	const before = cloud.requests.length;
+	const results = await manager.sync(client, { writeLog: false });
+
+	assert.deepEqual(results.synced, ["Reference Sheets/Text"]);
+	assert.ok(results.log.some((l) => l.includes("Renderer updated since Reference Sheets/Text was synced")));
+	assert.ok(files.has("reMarkable/Reference Sheets/Text.pdf"));
+	assert.equal(state.syncedDocs[TEXT_DOC].rendererVersion, RENDERER_VERSION);
+	// Only the root check went to the cloud; every blob came from the cache.
+	assert.deepEqual(cloud.requests.slice(before).map((r) => r.path), ["/sync/v3/root"]);
+	assert.equal(results.bytesDownloaded, 0);
+	assert.ok(results.documents[0].bytesLoaded! > 0);
+});
+
+test("profiles sync their own folders from one shared listing", async () => {
+	const cloud = loadReferenceLibrary();
+	cloud.putFolder("f0000000-0000-4000-8000-000000000001", "Work");
+	cloud.putFolder("f0000000-0000-4000-8000-000000000002", "Archive", "f0000000-0000-4000-8000-000000000001");
+	cloud.updateMetadata(TEXT_DOC, { parent: "f0000000-0000-4000-8000-000000000001" });
+	cloneDocument(cloud, PAGES_DOC, "00000000-cccc-4ccc-8ccc-000000000003", {
+		parent: "f0000000-0000-4000-8000-000000000002",
+	});
+	const client = await registeredClient(cloud);
+	const { ops, files } = memoryFileOps();
+
+	const before = cloud.requests.length;
+	const [sheets, work] = await SyncManager.syncTargets(client, "", ops, [
+		{ subfolder: "Sheets", options: { folderFilter: "Reference Sheets", writeLog: false } },
+		{ subfolder: "Work", options: { folderFilter: "Work/", excludeFolders: ["Work/Archive"], writeLog: false } },
+	]);
+
+	assert.deepEqual(work.synced, ["Work/Text"]);
+	assert.ok(files.has("Work/Work/Text.pdf"));
+	assert.ok(!files.has("Sheets/Work/Text.pdf"));
+	assert.ok(!pdfPaths(files).some((p) => p.includes("Archive")));
+	assert.ok(sheets.synced.includes("Reference Sheets/Pages"));
+	assert.ok(!sheets.synced.includes("Work/Text"));
+	// The second profile reused the first one's listing.
+	const listed = cloud.requests.slice(before).filter((r) => r.path === "/sync/v3/root");
+	assert.equal(listed.length, 1);
+
+	// A folder filter matches whole folders, not name prefixes.
+	const prefix = await SyncManager.syncTargets(client, "", ops, [
+		{ subfolder: "Prefix", options: { folderFilter: "Reference", writeLog: false } },
+	]);
+	assert.deepEqual(prefix[0].synced, []);
+
+	await assert.rejects(
+		SyncManager.syncTargets(client, "", ops, [
+			{ subfolder: "Notes", options: {} },
+			{ subfolder: "notes/", options: {} },
+		]),
+		/More than one sync profile writes to notes\//
+	);
+});
+
+test("a document moved between profiles' folders leaves no copy behind", async () => {
+	const cloud = loadReferenceLibrary();
+	cloud.putFolder("f0000000-0000-4000-8000-000000000001", "Work");
+	const client = await registeredClient(cloud);
+	const { ops, files } = memoryFileOps();
+	const targets = [
+		{ subfolder: "Sheets", options: { folderFilter: "Reference Sheets", removalPolicy: "delete" as const, writeLog: false } },
+		{ subfolder: "Work", options: { folderFilter: "Work", removalPolicy: "delete" as const, writeLog: false } },
+	];
+	await SyncManager.syncTargets(client, "", ops, targets);
+	assert.ok(files.has("Sheets/Reference Sheets/Text.pdf"));
+
+	cloud.updateMetadata(TEXT_DOC, { parent: "f0000000-0000-4000-8000-000000000001" });
+	const [sheets, work] = await SyncManager.syncTargets(client, "", ops, targets);
+
+	assert.deepEqual(sheets.fileOperations.map((op) => [op.action, op.from]), [
+		["deleted", "Sheets/Reference Sheets/Text.pdf"],
+	]);
+	assert.deepEqual(work.synced, ["Work/Text"]);
+	assert.deepEqual(pdfPaths(files).filter((p) => p.endsWith("/Text.pdf")), ["Work/Work/Text.pdf"]);
+});
+
+test("the original format saves imported PDFs as-is and still renders notebooks", async () => {
+	const cloud = loadReferenceLibrary();
+	const paperId = "0aaaaaaa-dddd-4ddd-8ddd-000000000004";
+	const original = await PDFDocument.create();
+	original.addPage([612, 792]);
+	const originalBytes = new Uint8Array(await original.save());
+	const text = (value: unknown) => new TextEncoder().encode(JSON.stringify(value));
+	cloud.putDocument({
+		id: paperId,
+		files: new Map([
+			[`${paperId}.metadata`, text({ visibleName: "Paper", type: "DocumentType", parent: SHEETS_FOLDER })],
+			[`${paperId}.content`, text({ fileType: "pdf", pages: [] })],
+			[`${paperId}.pdf`, originalBytes],
+		]),
+	});
+	const client = await registeredClient(cloud);
+	const { ops, files } = memoryFileOps();
+	const state = new SyncState();
+	const manager = new SyncManager("", "reMarkable", ops, state);
+
+	const results = await manager.sync(client, { outputFormats: ["original"], writeLog: false });
+	assert.deepEqual(results.errors, []);
+	assert.deepEqual(files.get("reMarkable/Reference Sheets/Paper.pdf"), originalBytes);
+	assert.ok(files.has("reMarkable/Reference Sheets/Text.pdf"));
+	assert.deepEqual(state.syncedDocs[paperId].formats, ["original"]);
+
+	// As if the last sync had written both formats (this page-less stub can't
+	// be rendered): the copy moves with the rename, and the format change
+	// re-syncs the document.
+	cloud.updateMetadata(paperId, { visibleName: "Renamed Paper" });
+	state.syncedDocs[paperId].formats = ["pdf", "original"];
+	state.syncedDocs[paperId].originalPath = "reMarkable/Reference Sheets/Paper (original).pdf";
+	files.set("reMarkable/Reference Sheets/Paper (original).pdf", originalBytes);
+	const again = await manager.sync(client, { outputFormats: ["original"], writeLog: false });
+	assert.deepEqual(
+		again.fileOperations.map((op) => op.to),
+		["reMarkable/Reference Sheets/Renamed Paper.pdf", "reMarkable/Reference Sheets/Renamed Paper (original).pdf"]
+	);
+	assert.ok(again.log.some((l) => l.includes("Output formats changed since Reference Sheets/Renamed Paper")));
+	assert.deepEqual(files.get("reMarkable/Reference Sheets/Renamed Paper.pdf"), originalBytes);
+});
+
+test("rules read tags and pins from the listing and log every skip", async () => {
+	const cloud = loadReferenceLibrary();
+	const textDoc = cloud.documents.get(TEXT_DOC)!;
+	const content = JSON.parse(new TextDecoder().decode(textDoc.files.get(`${TEXT_DOC}.content`)));
+	content.tags = [{ name: "Work", timestamp: 1 }];
+	textDoc.files.set(`${TEXT_DOC}.content`, new TextEncoder().encode(JSON.stringify(content)));
+	cloud.putDocument(textDoc);
+	cloud.updateMetadata(PAGES_DOC, { pinned: true });
+	const client = await registeredClient(cloud);
+	const { ops } = memoryFileOps();
+	const state = new SyncState();
+	const manager = new SyncManager("", "reMarkable", ops, state);
+
+	const tagged = await manager.sync(client, { rules: { tags: ["work"] }, writeLog: false });
+	assert.deepEqual(tagged.synced, ["Reference Sheets/Text"]);
+	const listed = state.remoteDocs.find((d) => d.id === TEXT_DOC)!;
+	assert.deepEqual([listed.fileType, listed.tags], ["notebook", ["Work"]]);
+	assert.equal(tagged.excluded.length, cloud.documents.size - 2); // minus the folder and Text
+	assert.ok(tagged.log.some((l) => l.includes("[skip] Reference Sheets/Pages (rule: tags work)")));
+
+	const pinned = await manager.sync(client, { rules: { pinnedOnly: true, exclude: ["**/Text"] }, writeLog: false });
+	assert.deepEqual(pinned.synced, ["Reference Sheets/Pages"]);
+	assert.deepEqual(
+		pinned.excluded.find((skip) => skip.docId === TEXT_DOC),
+		{ docId: TEXT_DOC, path: "Reference Sheets/Text", rule: 'exclude "**/Text"' }
+	);
+});
+
+test("library picker choices override the rules within the synced folder", async () => {
+	const cloud = loadReferenceLibrary();
+	const client = await registeredClient(cloud);
+	const { ops, files } = memoryFileOps();
+	const manager = new SyncManager("", "reMarkable", ops, new SyncState());
+
+	const results = await manager.sync(client, {
+		rules: { include: ["**/Text"] },
+		selections: { [PAGES_DOC]: "once", [TEXT_DOC]: "never" },
+		writeLog: false,
+	});
+	assert.deepEqual(results.synced, ["Reference Sheets/Pages"]);
+	assert.deepEqual(results.syncedOnce, [PAGES_DOC]);
+	assert.ok(results.log.some((l) => l.includes("[skip] Reference Sheets/Text (rule: never sync (library picker))")));
+	assert.ok(files.has("reMarkable/Reference Sheets/Pages.pdf"));
+
+	// Unchanged documents still count as synced once; a folder outside the
+	// profile's stays out whatever was picked.
+	const again = await manager.sync(client, {
+		rules: { include: ["**/Text"] },
+		selections: { [PAGES_DOC]: "once", [TEXT_DOC]: "never" },
+		writeLog: false,
+	});
+	assert.deepEqual(again.syncedOnce, [PAGES_DOC]);
+	const listed = await manager.listRemote(client);
+	assert.equal(listed.find((doc) => doc.id === PAGES_DOC)?.synced, true);
+	assert.equal(manager.hasSynced(TEXT_DOC), false);
+
+	const elsewhere = await manager.sync(client, {
+		folderFilter: "Elsewhere",
+		selections: { [TEXT_DOC]: "always" },
+		writeLog: false,
+	});
+	assert.ok(elsewhere.excluded.some((skip) => skip.docId === TEXT_DOC && skip.rule === 'folder "Elsewhere"'));
+	// Pages is now outside the profile too, so it is removed per the policy.
+	assert.deepEqual(elsewhere.fileOperations, [{
+		action: "kept",
+		docId: PAGES_DOC,
+		from: "reMarkable/Reference Sheets/Pages.pdf",
+		to: null,
+		rule: 'folder "Elsewhere"',
+	}]);
+});
+
+test("a cancelled forced sync keeps its progress and the next sync finishes it", async () => {
+	const cloud = loadReferenceLibrary();
+	const client = await registeredClient(cloud);
+	const { ops } = memoryFileOps();
+	const state = new SyncState();
+	const manager = new SyncManager("", "reMarkable", ops, state);
+	const total = (await manager.sync(client, { writeLog: false })).synced.length;
+	assert.ok(total > 1);
+
+	const controller = new AbortController();
+	const cancelled = await manager.sync(client, {
+		force: true,
+		signal: controller.signal,
+		writeLog: false,
+		onProgress: (message) => {
+			if (message.startsWith("[OK] Synced")) controller.abort();
+		},
+	});
+	assert.equal(cancelled.cancelled, true);
+	assert.equal(cancelled.synced.length, 1);
+	assert.deepEqual(cancelled.errors, []);
+	assert.ok(cancelled.log.some((l) => l.includes("Sync cancelled — 1 synced")));
+	assert.equal(state.resumeForced.length, total - 1);
+
+	// Nothing changed on the tablet, yet the rest of the forced run is done.
+	const resumed = await manager.sync(client, { writeLog: false });
+	assert.equal(resumed.cancelled, false);
+	assert.equal(resumed.synced.length, total - 1);
+	assert.ok(resumed.log.some((l) => l.includes(`Resuming a cancelled forced sync: ${total - 1} documents left`)));
+	assert.deepEqual(state.resumeForced, []);
+	assert.equal((await manager.sync(client, { writeLog: false })).synced.length, 0);
+});
+
+test("parallel downloads and conversions give the same results as one at a time", async () => {
+	const cloud = loadReferenceLibrary();
+	const client = await registeredClient(cloud);
+	const run = async (concurrency: number) => {
+		const { ops, files } = memoryFileOps();
+		const state = new SyncState();
+		const manager = new SyncManager("", "reMarkable", ops, state);
+		const results = await manager.sync(client, {
+			documentConcurrency: concurrency,
+			conversionConcurrency: concurrency,
+			writeLog: false,
+		});
+		const messages = results.log.map((l) => l.replace(/^\[[^\]]+\] /, ""));
+		return { results, messages, files, state };
+	};
+
+	const oneAtATime = await run(1);
+	const parallel = await run(4);
+	assert.deepEqual(parallel.results.errors, []);
+	assert.deepEqual(parallel.results.synced, oneAtATime.results.synced);
+	assert.deepEqual(pdfPaths(parallel.files), pdfPaths(oneAtATime.files));
+	const synced = (messages: string[]) => messages.filter((m) => m.startsWith("[OK] Synced"));
+	assert.deepEqual(synced(parallel.messages), synced(oneAtATime.messages));
+	for (const [id, info] of Object.entries(oneAtATime.state.syncedDocs)) {
+		assert.equal(parallel.state.syncedDocs[id]?.path, info.path);
+	}
+
+	// Downloads run ahead of the writes, at most one document ahead of the
+	// conversion in progress when every stage is limited to one.
+	const downloadsBeforeFirstWrite = (messages: string[]) =>
+		messages
+			.slice(0, messages.findIndex((m) => m.startsWith("[OK] Synced")))
+			.filter((m) => m.startsWith("Downloading:")).length;
+	assert.equal(downloadsBeforeFirstWrite(oneAtATime.messages), 2);
+	assert.ok(downloadsBeforeFirstWrite(parallel.messages) > 2);
+});
+
+test("a page edit re-renders and downloads only that page", async () => {
+	const cloud = loadReferenceLibrary();
+	const client = await registeredClient(cloud);
+	const { ops, files } = memoryFileOps();
+	const state = new SyncState();
+	const manager = new SyncManager("", "reMarkable", ops, state);
+	await manager.sync(client, { writeLog: false });
+	const pageIds = state.syncedDocs[PAGES_DOC].pages!.map((page) => page.id);
+	assert.equal(pageIds.length, 4);
+
+	// Draw page 3's strokes onto page 2; the extra file bumps the version.
+	const doc = cloud.documents.get(PAGES_DOC)!;
+	const pageFile = (i: number) => `${PAGES_DOC}/${pageIds[i]}.rm`;
+	doc.files.set(pageFile(1), doc.files.get(pageFile(2))!);
+	doc.files.set(`${PAGES_DOC}.pagedata`, new TextEncoder().encode("Blank\n"));
+	cloud.putDocument(doc);
+	cloud.requests.length = 0;
+
+	const results = await manager.sync(client, { writeLog: false });
+	assert.deepEqual(results.synced, ["Reference Sheets/Pages"]);
+	assert.ok(results.log.some((l) => l.includes("Re-rendering 1 of 4 pages: Reference Sheets/Pages")));
+	const pagesFetched = cloud.requests.filter((r) => r.rmFilename?.endsWith(".rm")).map((r) => r.rmFilename);
+	assert.deepEqual(pagesFetched, [pageFile(1)]);
+	assert.equal(results.documents[0].action, "pages-updated");
+	assert.equal(results.documents[0].pagesRendered, 1);
+	assert.equal(results.bytesLoaded, results.documents[0].bytesLoaded);
+
+	// The spliced PDF matches a full render of the new version.
+	const spliced = await PDFDocument.load(files.get("reMarkable/Reference Sheets/Pages.pdf") as Uint8Array);
+	const full = await PDFDocument.load(await convertDocument(PAGES_DOC, doc.files));
+	const sizes = (pdf: PDFDocument) => pdf.getPages().map((p) => p.getSize());
+	assert.deepEqual(sizes(spliced), sizes(full));
+	assert.equal(state.syncedDocs[PAGES_DOC].pages![1].hash, state.syncedDocs[PAGES_DOC].pages![2].hash);
+
+	// Removing a page renders nothing at all.
+	const content = JSON.parse(new TextDecoder().decode(doc.files.get(`${PAGES_DOC}.content`)));
+	content.cPages.pages = content.cPages.pages.filter((p: { id: string }) => p.id !== pageIds[0]);
+	doc.files.set(`${PAGES_DOC}.content`, new TextEncoder().encode(JSON.stringify(content)));
+	doc.files.set(`${PAGES_DOC}.extra`, new Uint8Array([1]));
+	cloud.putDocument(doc);
+	cloud.requests.length = 0;
+
+	const removed = await manager.sync(client, { writeLog: false });
+	assert.ok(removed.log.some((l) => l.includes("Re-rendering 0 of 3 pages")));
+	assert.equal(cloud.requests.filter((r) => r.rmFilename?.endsWith(".rm")).length, 0);
+	const shorter = await PDFDocument.load(files.get("reMarkable/Reference Sheets/Pages.pdf") as Uint8Array);
+	assert.equal(shorter.getPageCount(), 3);
+});
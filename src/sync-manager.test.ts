@@ -16,6 +16,7 @@ function memoryFileOps(): { ops: FileOps; files: Map<string, string> } {
 	const files = new Map<string, string>();
 	const ops: FileOps = {
 		readFile: async (p: string) => files.get(p) ?? null,
+		readBinaryFile: async () => null,
 		writeFile: async (p: string, data: string) => {
 			files.set(p, data);
 		},
@@ -24,6 +25,15 @@ function memoryFileOps(): { ops: FileOps; files: Map<string, string> } {
 		},
 		mkdir: async () => {},
 		exists: async (p: string) => files.has(p),
+		remove: async (p: string) => {
+			files.delete(p);
+		},
+		rename: async (from: string, to: string) => {
+			const data = files.get(from);
+			if (data === undefined) throw new Error(`No such file: ${from}`);
+			files.set(to, data);
+			files.delete(from);
+		},
 	};
 	return { ops, files };
 }
@@ -35,10 +45,13 @@ function doc(id: string, name: string, version = 1): DocumentMetadata {
 		name,
 		parent: "",
 		docType: "DocumentType",
+		createdTime: "",
 		modifiedTime: "",
 		pinned: false,
 		isTrashed: false,
 		entryHash: "",
+		fileType: "notebook",
+		tags: [],
 	};
 }
 
@@ -47,6 +60,7 @@ function failingClient(docs: DocumentMetadata[]): RemarkableCloudClient {
 	return {
 		isAuthenticated: true,
 		listDocuments: async () => docs,
+		fetchListing: async () => ({ rootHash: "root", documents: docs }),
 		downloadDocument: async (id: string) => {
 			throw new Error(`boom for ${id}`);
 		},
@@ -124,6 +138,115 @@ test("log keeps history across multiple runs (most recent first)", async () => {
 	assert.ok(log.indexOf("boom for doc-2") < log.indexOf("boom for doc-1"));
 });
 
+test("the log keeps the newest runs whole rather than truncating one", async () => {
+	const { ops, files } = memoryFileOps();
+	const manager = new SyncManager("/vault", "reMarkable", ops, new SyncState());
+
+	for (const name of ["First", "Second", "Third"]) {
+		await manager.sync(failingClient([doc(`doc-${name}`, name)]), {
+			logFileName: "_test-sync-log.md",
+			logHistory: 2,
+		});
+	}
+
+	const log = files.get(LOG_FILE)!;
+	assert.equal(log.match(/## Sync /g)?.length, 2);
+	assert.ok(!log.includes("boom for doc-First"));
+	assert.ok(log.trimEnd().endsWith("</details>"), "the oldest run kept is complete");
+});
+
+test("each run is also written to the JSON report", async () => {
+	const { ops, files } = memoryFileOps();
+	const manager = new SyncManager("/vault", "reMarkable", ops, new SyncState());
+
+	const results = await manager.sync(failingClient([doc("doc-1", "Notes")]), { writeLog: false });
+	await manager.sync(failingClient([doc("doc-1", "Notes", 2)]), { writeLog: false });
+
+	assert.equal(results.reportPath, "reMarkable/_reMarkable Sync Report.json");
+	const report = JSON.parse(files.get("/vault/reMarkable/_reMarkable Sync Report.json")!);
+	assert.equal(report.runs.length, 2);
+	assert.equal(report.runs[1].startedAt, results.startedAt);
+	assert.equal(report.runs[0].totals.errors, 1);
+	assert.equal(report.runs[0].folder, "reMarkable");
+	assert.deepEqual(
+		report.runs[0].documents.map((d: { docId: string; action: string; error: string }) => [d.docId, d.action, d.error]),
+		[["doc-1", "failed", "boom for doc-1"]]
+	);
+	assert.equal(report.runs[0].errorDetails[0].docId, "doc-1");
+
+	const off = new SyncManager("/vault", "Other", ops, new SyncState());
+	assert.equal((await off.sync(failingClient([]), { writeLog: false, writeReport: false })).reportPath, null);
+});
+
+test("a failing document waits longer before each retry", async () => {
+	const { ops } = memoryFileOps();
+	const state = new SyncState();
+	const manager = new SyncManager("/vault", "reMarkable", ops, state);
+	const client = failingClient([doc("doc-1", "Notes")]);
+
+	const first = await manager.sync(client, { writeLog: false, writeReport: false });
+	assert.equal(first.errorDetails[0].failures, 1);
+	const firstWait = Date.parse(state.failures["doc-1"].retryAfter) - Date.parse(state.failures["doc-1"].lastFailedAt);
+
+	const held = await manager.sync(client, { writeLog: false, writeReport: false });
+	assert.deepEqual(held.errors, []);
+	assert.deepEqual(held.held, ["Notes"]);
+	assert.equal(held.documents[0].action, "backing-off");
+	assert.ok(held.log.some((line) => line.includes("Holding back 1 failing documents (0 quarantined, 1 waiting to retry)")));
+
+	// Forcing skips the wait; the next wait is twice as long.
+	await manager.sync(client, { writeLog: false, writeReport: false, force: true });
+	const failure = state.failures["doc-1"];
+	assert.equal(failure.count, 2);
+	assert.equal(Date.parse(failure.retryAfter) - Date.parse(failure.lastFailedAt), firstWait * 2);
+	assert.equal(failure.lastError, "boom for doc-1");
+});
+
+test("documents that keep failing are quarantined until released", async () => {
+	const { ops } = memoryFileOps();
+	const state = new SyncState();
+	const manager = new SyncManager("/vault", "reMarkable", ops, state);
+	const options = { writeLog: false, writeReport: false, force: true, quarantineAfter: 2 };
+
+	await manager.sync(failingClient([doc("doc-1", "Notes")]), options);
+	const second = await manager.sync(failingClient([doc("doc-1", "Notes")]), options);
+	assert.equal(second.errorDetails[0].quarantined, true);
+	assert.ok(second.log.some((line) => line.includes("[quarantine] Notes failed 2 times in a row")));
+
+	// Not even a forced sync retries it...
+	const held = await manager.sync(failingClient([doc("doc-1", "Notes")]), options);
+	assert.equal(held.documents[0].action, "quarantined");
+	assert.deepEqual(held.errors, []);
+	assert.deepEqual(
+		manager.failingDocuments().map((f) => [f.docId, f.path, f.count, f.quarantined]),
+		[["doc-1", "Notes", 2, true]]
+	);
+
+	// ...but a new version on the tablet does, counting from one again...
+	const changed = await manager.sync(failingClient([doc("doc-1", "Notes", 2)]), options);
+	assert.equal(changed.errors.length, 1);
+	assert.equal(changed.errorDetails[0].failures, 1);
+	assert.equal(changed.errorDetails[0].quarantined, false);
+	// ...and so does releasing it.
+	await manager.releaseFailures(["doc-1"]);
+	assert.deepEqual(manager.failingDocuments(), []);
+	const reloaded = await SyncState.load("/vault/reMarkable/.remarkable-sync-state.json", ops);
+	assert.deepEqual(reloaded.failures, {});
+});
+
+test("failures of documents deleted on the tablet are forgotten", async () => {
+	const { ops } = memoryFileOps();
+	const state = new SyncState();
+	const manager = new SyncManager("/vault", "reMarkable", ops, state);
+	const options = { writeLog: false, writeReport: false };
+
+	await manager.sync(failingClient([doc("doc-1", "Notes"), doc("doc-2", "Todo")]), options);
+	assert.deepEqual(Object.keys(state.failures).sort(), ["doc-1", "doc-2"]);
+
+	await manager.sync(failingClient([doc("doc-2", "Todo")]), options);
+	assert.deepEqual(manager.failingDocuments().map((f) => f.docId), ["doc-2"]);
+});
+
 test("an unauthenticated client still produces a log before throwing", async () => {
 	const { ops, files } = memoryFileOps();
 	const manager = new SyncManager(
@@ -187,3 +310,72 @@ test("an empty subfolder writes at the vault root without a leading slash", asyn
 		assert.ok(!key.startsWith("/"), `path must not start with '/': ${key}`);
 	}
 });
+
+// --- Incremental listing state ---
+
+test("the listing root hash and entries are persisted and passed to the next sync", async () => {
+	const { ops, files } = memoryFileOps();
+	const docs = [doc("doc-1", "Notes")];
+	const seen: (string | null)[] = [];
+	const client = {
+		isAuthenticated: true,
+		fetchListing: async (previous: { rootHash: string } | null) => {
+			seen.push(previous?.rootHash ?? null);
+			return { rootHash: "root-1", documents: docs };
+		},
+		downloadDocument: async () => {
+			throw new Error("boom");
+		},
+	} as unknown as RemarkableCloudClient;
+
+	const manager = new SyncManager("/vault", "reMarkable", ops, new SyncState());
+	await manager.sync(client, { writeLog: false });
+	const second = await manager.sync(client, { writeLog: false });
+
+	assert.deepEqual(seen, [null, "root-1"]);
+	assert.ok(second.log.some((l) => l.includes("Library unchanged")));
+
+	const saved = JSON.parse(files.get("/vault/reMarkable/.remarkable-sync-state.json")!);
+	assert.equal(saved.root_hash, "root-1");
+	assert.equal(saved.remote_docs[0].id, "doc-1");
+
+	const reloaded = await SyncState.load("/vault/reMarkable/.remarkable-sync-state.json", ops);
+	assert.equal(reloaded.listing?.rootHash, "root-1");
+});
+
+test("a forced sync ignores the saved listing", async () => {
+	const { ops } = memoryFileOps();
+	const state = new SyncState();
+	state.listing = { rootHash: "root-1", documents: [] };
+	let received: unknown = "unset";
+	const client = {
+		isAuthenticated: true,
+		fetchListing: async (previous: unknown) => {
+			received = previous;
+			return { rootHash: "root-2", documents: [] };
+		},
+	} as unknown as RemarkableCloudClient;
+
+	await new SyncManager("/vault", "reMarkable", ops, state).sync(client, { force: true, writeLog: false });
+	assert.equal(received, null);
+});
+
+test("retries reported by the client are captured in the run log", async () => {
+	const { ops } = memoryFileOps();
+	const client = {
+		isAuthenticated: true,
+		onRetry: null as ((m: string) => void) | null,
+		async fetchListing() {
+			this.onRetry?.("GET root: HTTP 429, retrying in 1.0s (attempt 2/4)");
+			return { rootHash: "root", documents: [] };
+		},
+	};
+
+	const results = await new SyncManager("/vault", "reMarkable", ops, new SyncState()).sync(
+		client as unknown as RemarkableCloudClient,
+		{ writeLog: false }
+	);
+
+	assert.ok(results.log.some((l) => l.includes("[retry] GET root: HTTP 429")));
+	assert.equal(client.onRetry, null, "the hook is removed after the run");
+});
@@ -1,33 +1,158 @@
 /**
  * Sync Manager
  *
- * Orchestrates syncing from reMarkable cloud to local filesystem.
+ * Orchestrates syncing from a document source (the reMarkable cloud or a
+ * local xochitl folder) to the local filesystem.
  * Handles incremental sync, folder structure, and file management.
  * Obsidian-independent via abstracted file I/O.
  */
 
 import {
-	RemarkableCloudClient,
 	type DocumentMetadata,
 	type FileOps,
+	type RemoteListing,
 	buildFolderTree,
 	isDocument,
+	isFolder,
+	parseJsonOrEmpty,
+	sha256Hex,
 } from "./cloud-client";
-import { convertDocument } from "./document-converter";
-import { SYNC_LOG_FILENAME, SYNC_LOG_MAX_BYTES } from "./constants";
+import { type Limiter, createLimiter } from "./concurrency";
+import {
+	type SplicedPage,
+	RENDERER_VERSION,
+	contentPageIds,
+	convertDocument,
+	convertPages,
+	originalFile,
+	pageFileName,
+	splicePdfPages,
+} from "./document-converter";
+import type { DocumentSource } from "./document-source";
+import { fitPathLength, sanitizeName } from "./path-sanitizer";
+import { DEFAULT_PATH_TEMPLATE, type PathTemplate, compilePathTemplate } from "./path-template";
+import { type RuleCheck, type SyncRules, compileRules } from "./sync-rules";
+import { type SyncReport, appendSyncReport, buildSyncReport } from "./sync-report";
+import {
+	ARCHIVE_FOLDER,
+	SYNC_LOG_FILENAME,
+	SYNC_LOG_HISTORY,
+	SYNC_LOG_MAX_BYTES,
+	SYNC_REPORT_FILENAME,
+} from "./constants";
+
+// Characters of the document id appended to a PDF name that collides with
+// another document's ("Notes (1a2b3c4d).pdf").
+const ID_SUFFIX_LENGTH = 8;
+
+// Report listing progress every N documents (plus once at the end) so large
+// libraries show movement without flooding the run log.
+const LIST_PROGRESS_STEP = 100;
+
+/** Documents downloaded at once; each fetches its own files in parallel too. */
+export const DEFAULT_DOCUMENT_CONCURRENCY = 3;
+/** Documents rendered to PDF at once. */
+export const DEFAULT_CONVERSION_CONCURRENCY = 2;
+
+/** Failures in a row after which a document is quarantined. */
+export const DEFAULT_QUARANTINE_AFTER = 5;
+
+// A failed document waits this long before its first retry, doubling with
+// every further failure up to RETRY_MAX_DELAY_MS.
+const RETRY_BASE_DELAY_MS = 5 * 60 * 1000;
+const RETRY_MAX_DELAY_MS = 24 * 60 * 60 * 1000;
+
+// Documents synced before the renderer version was stamped came from the
+// first stamped renderer's code, so an upgrade alone doesn't re-render them.
+const UNSTAMPED_RENDERER_VERSION = 1;
 
 // --- Sync state ---
 
+/**
+ * Files written for each document: "pdf" is the rendered PDF with the
+ * annotations, "original" a copy of the PDF or EPUB the document was
+ * imported from. Notebooks have no original and are always rendered.
+ */
+export type OutputFormat = "pdf" | "original";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["pdf", "original"];
+
 export interface SyncedDocInfo {
 	version: number;
+	/** The rendered PDF, or the original when that is the only format. */
 	path: string;
 	hash: string;
 	syncedAt: string;
+	/** RENDERER_VERSION that produced the PDF; missing for older syncs (version 1). */
+	rendererVersion?: number;
+	/** Formats written at the last sync; missing means ["pdf"]. */
+	formats?: OutputFormat[];
+	/** The copy of the original written next to the rendered PDF, if any. */
+	originalPath?: string;
+	/**
+	 * The rendered PDF's pages in order, each with the SHA-256 of its .rm
+	 * file ("" for a page without strokes). Lets the next sync re-render
+	 * only the pages that changed.
+	 */
+	pages?: PageRecord[];
+	/** SHA-256 of the original PDF the pages were drawn on, if any. */
+	backgroundHash?: string;
+}
+
+export interface PageRecord {
+	id: string;
+	hash: string;
 }
 
+/**
+ * Failures in a row of one document, cleared once it syncs. Each failure
+ * doubles the wait before the next retry; after enough of them the document
+ * is quarantined and skipped until released.
+ */
+export interface FailureRecord {
+	count: number;
+	lastError: string;
+	lastFailedAt: string;
+	/** Tablet path at the last failure, for listing. */
+	path: string;
+	/** Version that failed; a newer version is retried straight away. */
+	version: number;
+	/** Not retried before this time. */
+	retryAfter: string;
+	quarantined: boolean;
+}
+
+/** Why a failing document is left out of a sync. */
+export type HoldReason = "quarantined" | "backing-off";
+
 export class SyncState {
 	lastSync: string | null = null;
 	syncedDocs: Record<string, SyncedDocInfo> = {};
+	/** Root hash of the last cloud listing; unchanged root = unchanged library. */
+	rootHash: string | null = null;
+	/** Every entry of the last listing, each carrying its entry hash. */
+	remoteDocs: DocumentMetadata[] = [];
+	/**
+	 * Vault-relative file or folder path → its path on the tablet, for every
+	 * entry whose vault name differs from its reMarkable name (sanitised,
+	 * shortened or disambiguated).
+	 */
+	originalNames: Record<string, string> = {};
+	/**
+	 * Documents a cancelled forced sync had not reached yet. The next run
+	 * syncs them as if forced, so the forced run is finished rather than lost.
+	 */
+	resumeForced: string[] = [];
+	/** Documents whose last sync attempts failed, by id. */
+	failures: Record<string, FailureRecord> = {};
+	/** Template the synced paths were built with; a new one moves the files. */
+	pathTemplate = DEFAULT_PATH_TEMPLATE;
+	/**
+	 * Vault-relative files left in place under the "keep" policy → the id of
+	 * the removed document they belonged to. No other document is written to
+	 * one of these paths while the file is still there.
+	 */
+	keptFiles: Record<string, string> = {};
 
 	static async load(stateFile: string, fileOps: FileOps): Promise<SyncState> {
 		const state = new SyncState();
@@ -37,6 +162,22 @@ export class SyncState {
 			const parsed = JSON.parse(data);
 			state.lastSync = parsed.last_sync ?? null;
 			state.syncedDocs = parsed.synced_docs ?? {};
+			// Listings saved before documents carried a file type, tags and a
+			// created time are dropped, so the next sync lists the library afresh.
+			const remoteDocs: DocumentMetadata[] = parsed.remote_docs ?? [];
+			if (
+				remoteDocs.every(
+					(doc) => doc.fileType !== undefined && doc.tags !== undefined && doc.createdTime !== undefined
+				)
+			) {
+				state.rootHash = parsed.root_hash ?? null;
+				state.remoteDocs = remoteDocs;
+			}
+			state.originalNames = parsed.original_names ?? {};
+			state.resumeForced = parsed.resume_forced ?? [];
+			state.failures = parsed.failures ?? {};
+			state.pathTemplate = parsed.path_template ?? DEFAULT_PATH_TEMPLATE;
+			state.keptFiles = parsed.kept_files ?? {};
 		} catch {
 			// No state file or invalid JSON
 		}
@@ -48,6 +189,13 @@ export class SyncState {
 			{
 				last_sync: this.lastSync,
 				synced_docs: this.syncedDocs,
+				root_hash: this.rootHash,
+				remote_docs: this.remoteDocs,
+				original_names: this.originalNames,
+				resume_forced: this.resumeForced,
+				failures: this.failures,
+				path_template: this.pathTemplate,
+				kept_files: this.keptFiles,
 			},
 			null,
 			2
@@ -55,11 +203,82 @@ export class SyncState {
 		await fileOps.writeFile(stateFile, data);
 	}
 
+	get listing(): RemoteListing | null {
+		return this.rootHash ? { rootHash: this.rootHash, documents: this.remoteDocs } : null;
+	}
+
+	set listing(listing: RemoteListing | null) {
+		this.rootHash = listing?.rootHash ?? null;
+		this.remoteDocs = listing?.documents ?? [];
+	}
+
+	/** The tablet path a vault file or folder was named after, if it was renamed. */
+	originalName(vaultPath: string): string | null {
+		return this.originalNames[vaultPath] ?? null;
+	}
+
 	needsSync(doc: DocumentMetadata): boolean {
 		const synced = this.syncedDocs[doc.id];
 		if (!synced) return true;
 		return (synced.version ?? 0) < doc.version;
 	}
+
+	/** True when the synced PDF came from an older renderer than this build's. */
+	needsRerender(docId: string): boolean {
+		const synced = this.syncedDocs[docId];
+		return synced !== undefined && rendererVersionOf(synced) < RENDERER_VERSION;
+	}
+
+	/**
+	 * Why a failing document is left out now, or null to try it. A newer
+	 * version is always tried; `force` skips the wait but not a quarantine.
+	 */
+	holdReason(doc: DocumentMetadata, now: number, force: boolean): HoldReason | null {
+		const failure = this.failures[doc.id];
+		if (!failure || doc.version > failure.version) return null;
+		if (failure.quarantined) return "quarantined";
+		return !force && now < Date.parse(failure.retryAfter) ? "backing-off" : null;
+	}
+
+	/**
+	 * Count a failure and schedule the retry, quarantining after
+	 * `quarantineAfter` in a row. A newer version starts counting afresh.
+	 */
+	recordFailure(
+		doc: DocumentMetadata,
+		path: string,
+		message: string,
+		now: number,
+		quarantineAfter: number
+	): FailureRecord {
+		const previous = this.failures[doc.id];
+		const count = previous && doc.version <= previous.version ? previous.count + 1 : 1;
+		const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (count - 1), RETRY_MAX_DELAY_MS);
+		const failure: FailureRecord = {
+			count,
+			lastError: message,
+			lastFailedAt: new Date(now).toISOString(),
+			path,
+			version: doc.version,
+			retryAfter: new Date(now + delay).toISOString(),
+			quarantined: count >= quarantineAfter,
+		};
+		this.failures[doc.id] = failure;
+		return failure;
+	}
+
+	/** Forget the failures of documents no longer on the tablet. */
+	pruneFailures(listed: Set<string>): void {
+		for (const docId of Object.keys(this.failures)) {
+			if (!listed.has(docId)) delete this.failures[docId];
+		}
+	}
+
+	/** True when the document was last synced with other output formats. */
+	needsReformat(docId: string, formats: OutputFormat[]): boolean {
+		const synced = this.syncedDocs[docId];
+		return synced !== undefined && (synced.formats ?? ["pdf"]).join() !== formats.join();
+	}
 }
 
 // --- Sync results ---
@@ -68,14 +287,126 @@ export interface SyncErrorDetail {
 	docId: string;
 	path: string;
 	message: string;
+	/** Failures in a row, this one included (sync failures only). */
+	failures?: number;
+	/** True when this failure quarantined the document. */
+	quarantined?: boolean;
+}
+
+/**
+ * What happens to a synced PDF once its document is deleted on the tablet,
+ * or left out of the sync by the folder selection, picker or rules.
+ */
+export type RemovalPolicy = "keep" | "archive" | "delete";
+
+/** A change made to an already-synced vault file to mirror the tablet. */
+export interface FileOperation {
+	action: "moved" | "archived" | "deleted" | "kept";
+	docId: string;
+	/** Vault-relative path before the operation. */
+	from: string;
+	/** Vault-relative path afterwards; null when the file was deleted or kept. */
+	to: string | null;
+	/** The rule that left a removed document out; unset when it was deleted on the tablet. */
+	rule?: string;
+}
+
+/**
+ * What to do when a synced PDF was edited in the vault (e.g. annotated in
+ * Obsidian) and a newer version arrives from the tablet.
+ */
+export type ConflictPolicy = "conflict-copy" | "skip";
+
+export interface SyncConflict {
+	docId: string;
+	/** Vault-relative path of the locally edited PDF, which is left untouched. */
+	path: string;
+	action: "copied" | "skipped";
+	/** Vault-relative path the new version was written to ("copied" only). */
+	copyPath: string | null;
+}
+
+/**
+ * A per-document choice made in the library picker: "always" and "once"
+ * sync the document whatever the rules say, "never" leaves it out, and
+ * "once" is cleared after the document has been synced.
+ */
+export type DocumentSelection = "always" | "never" | "once";
+
+/**
+ * What a run did with one document: written in full or page by page,
+ * left out by a rule, skipped as a locally edited conflict, failed, held
+ * back after earlier failures, or (dry run) would have been synced.
+ * Unchanged documents are only counted.
+ */
+export type DocumentAction =
+	| "synced"
+	| "pages-updated"
+	| "excluded"
+	| "conflict-skipped"
+	| "failed"
+	| "dry-run"
+	| HoldReason;
+
+export interface DocumentOutcome {
+	docId: string;
+	/** Path on the tablet. */
+	path: string;
+	action: DocumentAction;
+	/** Vault-relative file written (the conflict copy for edited PDFs). */
+	output?: string;
+	/** The rule that left the document out ("excluded"). */
+	rule?: string;
+	/** Why the document would be synced ("dry-run"), e.g. "changed on the tablet". */
+	reason?: string;
+	/** Why the document failed ("failed"), or last failed (held back). */
+	error?: string;
+	/** Failures in a row so far ("failed" and held back). */
+	failures?: number;
+	/** From the start of its download to the end of its write. */
+	durationMs?: number;
+	/** Bytes of document files loaded from the source, cached blobs included. */
+	bytesLoaded?: number;
+	/** Bytes written to the vault. */
+	bytesWritten?: number;
+	/** Pages re-rendered by a page update ("pages-updated"). */
+	pagesRendered?: number;
+}
+
+/** A document left out of the sync by a rule. */
+export interface RuleSkip {
+	docId: string;
+	path: string;
+	/** The rule that left it out, e.g. `exclude "Work/**"`. */
+	rule: string;
 }
 
 export interface SyncResults {
 	synced: string[];
+	/** Unchanged since the last sync. */
 	skipped: string[];
+	/** Left out by the folder selection or the include/exclude rules. */
+	excluded: RuleSkip[];
+	/** Ids picked to sync once that are now in sync; their selection can go. */
+	syncedOnce: string[];
+	/** Held back after earlier failures: quarantined or waiting to retry. */
+	held: string[];
+	/** True when the run was cancelled before every document was checked. */
+	cancelled: boolean;
 	errors: string[];
 	/** Structured per-document failures (richer than the `errors` strings). */
 	errorDetails: SyncErrorDetail[];
+	/** Moves, archives and deletions mirrored from the tablet. */
+	fileOperations: FileOperation[];
+	/** Documents whose vault PDF was edited locally and so was not overwritten. */
+	conflicts: SyncConflict[];
+	/** Every document the run acted on, in listing order; see DocumentOutcome. */
+	documents: DocumentOutcome[];
+	/** Bytes received over the network, listing included; 0 for local sources. */
+	bytesDownloaded: number;
+	/** Bytes of document files loaded from the source, cached blobs included. */
+	bytesLoaded: number;
+	bytesWritten: number;
 	/** Timestamped activity lines captured during the run. */
 	log: string[];
 	startedAt: string;
@@ -83,6 +414,8 @@ export interface SyncResults {
 	durationMs: number;
 	/** Vault-relative path of the log file written for this run, if any. */
 	logPath: string | null;
+	/** Vault-relative path of the JSON report written for this run, if any. */
+	reportPath: string | null;
 }
 
 export type ProgressCallback = (message: string) => void;
@@ -90,15 +423,84 @@ export type ProgressCallback = (message: string) => void;
 // --- Sync manager ---
 
 export interface SyncOptions {
+	/** Only sync documents in this reMarkable folder and its subfolders. */
 	folderFilter?: string;
+	/** Leave out documents in these reMarkable folders and their subfolders. */
+	excludeFolders?: string[];
+	/** Further include/exclude rules, applied with the folder selection. */
+	rules?: SyncRules;
+	/**
+	 * Library picker choices by document id. They override the rules, but
+	 * only within the folder being synced (`folderFilter`).
+	 */
+	selections?: Record<string, DocumentSelection>;
+	/**
+	 * Cancels the run between documents, or mid-download or mid-render.
+	 * Everything synced so far is kept and the next run carries on from
+	 * there; the results come back with `cancelled` set.
+	 */
+	signal?: AbortSignal;
+	/** Files to write for each document (default: ["pdf"]). */
+	outputFormats?: OutputFormat[];
+	/**
+	 * A listing already fetched earlier in the same pass (see syncTargets);
+	 * used instead of listing the source again.
+	 */
+	listing?: RemoteListing;
 	force?: boolean;
 	dryRun?: boolean;
+	/**
+	 * Apply changes to these documents only, e.g. those picked from a dry-run
+	 * preview. Other changed documents, and their moves and removals, are
+	 * left for a later sync.
+	 */
+	onlyDocuments?: string[];
 	subfolder?: string;
+	/**
+	 * Vault path of each document below the sync folder, without extension
+	 * (default DEFAULT_PATH_TEMPLATE, the tablet's layout). See path-template.
+	 */
+	pathTemplate?: string;
+	/** What to do with PDFs of documents deleted on the tablet or left out (default: "keep"). */
+	removalPolicy?: RemovalPolicy;
+	/** What to do with PDFs edited in the vault (default: "conflict-copy"). */
+	conflictPolicy?: ConflictPolicy;
+	/**
+	 * How many documents are downloaded, and how many rendered, at once.
+	 * Files are still written and the sync state saved one document at a
+	 * time, in listing order, so a parallel run ends the same as a sequential one.
+	 */
+	documentConcurrency?: number;
+	conversionConcurrency?: number;
 	onProgress?: ProgressCallback;
 	/** Write a human-readable log file into the sync folder (default: true). */
 	writeLog?: boolean;
 	/** Override the log filename (default: SYNC_LOG_FILENAME). */
 	logFileName?: string;
+	/** Also write the run to the JSON report (SYNC_REPORT_FILENAME); default true. */
+	writeReport?: boolean;
+	/** Runs kept in the log and the JSON report (default SYNC_LOG_HISTORY). */
+	logHistory?: number;
+	/** Failures in a row that quarantine a document (default DEFAULT_QUARANTINE_AFTER). */
+	quarantineAfter?: number;
+}
+
+/** A live document as listed by SyncManager.listRemote. */
+export interface RemoteDocument {
+	id: string;
+	name: string;
+	/** Tablet path, e.g. "Work/Meetings/Standup". */
+	path: string;
+	version: number;
+	modified: string;
+	synced: boolean;
+}
+
+/** One vault folder synced by SyncManager.syncTargets, e.g. a sync profile. */
+export interface SyncTarget {
+	/** Vault folder the files and the sync state go into. */
+	subfolder: string;
+	options: SyncOptions;
 }
 
 export class SyncManager {
@@ -132,24 +534,73 @@ export class SyncManager {
 		return new SyncManager(vaultPath, subfolder, fileOps, state);
 	}
 
+	/**
+	 * Sync several vault folders in one pass. The library is listed once, for
+	 * the first target, and that listing is handed to the others, so adding a
+	 * target adds no listing requests. Results are returned in target order;
+	 * a listing failure ends the pass. A document that moves from one
+	 * target's folders to another's is removed from the first per its
+	 * removal policy and written by the second.
+	 */
+	static async syncTargets(
+		source: DocumentSource,
+		vaultPath: string,
+		fileOps: FileOps,
+		targets: SyncTarget[]
+	): Promise<SyncResults[]> {
+		const folders = new Set<string>();
+		for (const target of targets) {
+			const key = pathKey(target.subfolder.trim().replace(/^\/+|\/+$/g, ""));
+			if (folders.has(key)) {
+				throw new Error(`More than one sync profile writes to ${target.subfolder || "the vault root"}`);
+			}
+			folders.add(key);
+		}
+
+		const allResults: SyncResults[] = [];
+		let listing = targets[0]?.options.listing;
+		for (const target of targets) {
+			const manager = await SyncManager.create(vaultPath, target.subfolder, fileOps);
+			const results = await manager.sync(source, { ...target.options, listing });
+			allResults.push(results);
+			if (results.cancelled) break;
+			listing = manager.state.listing ?? undefined;
+		}
+		return allResults;
+	}
+
 	async sync(
-		client: RemarkableCloudClient,
+		source: DocumentSource,
 		opts: SyncOptions = {}
 	): Promise<SyncResults> {
 		const startMs = Date.now();
 		const results: SyncResults = {
 			synced: [],
 			skipped: [],
+			excluded: [],
+			syncedOnce: [],
+			held: [],
+			cancelled: false,
 			errors: [],
 			errorDetails: [],
+			fileOperations: [],
+			conflicts: [],
+			documents: [],
+			bytesDownloaded: 0,
+			bytesLoaded: 0,
+			bytesWritten: 0,
 			log: [],
 			startedAt: new Date().toISOString(),
 			finishedAt: "",
 			durationMs: 0,
 			logPath: null,
+			reportPath: null,
 		};
 		const writeLog = opts.writeLog ?? true;
 		const logFileName = opts.logFileName ?? SYNC_LOG_FILENAME;
+		const writeReport = opts.writeReport ?? true;
+		const history = Math.max(1, opts.logHistory ?? SYNC_LOG_HISTORY);
+		const quarantineAfter = Math.max(1, opts.quarantineAfter ?? DEFAULT_QUARANTINE_AFTER);
 
 		// Capture every progress line into the run log, then forward to the caller.
 		const userProgress = opts.onProgress ?? (() => {});
@@ -158,20 +609,40 @@ export class SyncManager {
 			userProgress(message);
 		};
 
+		// Surface the source's retry history in the run log for this sync only.
+		const previousOnRetry = source.onRetry;
+		source.onRetry = (message) => progress(`[retry] ${message}`);
+		const fetchedBefore = source.bytesFetched ?? 0;
+
 		const finalize = async (): Promise<void> => {
+			source.onRetry = previousOnRetry;
+			results.bytesDownloaded = (source.bytesFetched ?? 0) - fetchedBefore;
 			results.finishedAt = new Date().toISOString();
 			results.durationMs = Date.now() - startMs;
 			if (writeLog) {
 				try {
-					results.logPath = await this.writeRunLog(results, logFileName);
+					results.logPath = await this.writeRunLog(results, logFileName, history);
 				} catch (e) {
 					// Never let logging failures break a sync.
 					userProgress(`(could not write sync log: ${(e as Error).message})`);
 				}
 			}
+			if (writeReport) {
+				try {
+					const report = buildSyncReport(results, {
+						source: source.label,
+						folder: this.vaultRelative(this.outputDir),
+						dryRun: opts.dryRun ?? false,
+						force: opts.force ?? false,
+					});
+					results.reportPath = await this.writeRunReport(report, history);
+				} catch (e) {
+					userProgress(`(could not write sync report: ${(e as Error).message})`);
+				}
+			}
 		};
 
-		if (!client.isAuthenticated) {
+		if (!source.isAuthenticated) {
 			const message =
 				"Not authenticated. Please register with reMarkable first.";
 			progress(`[FAIL] ${message}`);
@@ -179,11 +650,61 @@ export class SyncManager {
 			throw new Error(message);
 		}
 
-		progress("Fetching document list from reMarkable cloud...");
+		let folderCheck: RuleCheck;
+		let ruleCheck: RuleCheck;
+		let pathTemplate: PathTemplate;
+		const templateText = opts.pathTemplate?.trim() || DEFAULT_PATH_TEMPLATE;
+		try {
+			pathTemplate = compilePathTemplate(templateText);
+			folderCheck = compileRules({ folder: opts.folderFilter ?? opts.rules?.folder });
+			ruleCheck = compileRules({
+				excludeFolders: opts.excludeFolders,
+				...opts.rules,
+				folder: undefined,
+			});
+		} catch (e) {
+			progress(`[FAIL] ${(e as Error).message}`);
+			await finalize();
+			throw e;
+		}
+
+		// A forced sync relists from scratch rather than trusting saved state.
+		const previous = opts.force ? null : this.state.listing;
 		let documents: DocumentMetadata[];
 		try {
-			documents = await client.listDocuments();
+			let listing = opts.listing;
+			if (listing) {
+				progress(`Using the document list already fetched from ${source.label}`);
+			} else {
+				progress(`Fetching document list from ${source.label}...`);
+				listing = await source.fetchListing(
+					previous,
+					(done, total) => {
+						if (done === total || done % LIST_PROGRESS_STEP === 0) {
+							progress(`Fetched ${done}/${total} document indexes`);
+						}
+					},
+					opts.signal
+				);
+			}
+			documents = listing.documents;
+
+			if (previous && previous.rootHash === listing.rootHash) {
+				progress("Library unchanged since the last sync");
+			} else if (previous) {
+				const reused = countReusedEntries(previous, listing);
+				progress(`Library changed: reused ${reused} of ${documents.length} document indexes`);
+			}
+
+			this.state.listing = listing;
+			await this.state.save(this.stateFile, this.fileOps);
 		} catch (e) {
+			if (opts.signal?.aborted) {
+				results.cancelled = true;
+				progress("Sync cancelled while listing documents");
+				await finalize();
+				return results;
+			}
 			const message = (e as Error).message;
 			progress(`[FAIL] Could not list documents: ${message}`);
 			await finalize();
@@ -195,59 +716,279 @@ export class SyncManager {
 		const docsToSync = documents.filter(
 			(doc) => isDocument(doc) && !doc.isTrashed
 		);
+		if (!opts.dryRun) this.state.pruneFailures(new Set(docsToSync.map((doc) => doc.id)));
 
-		// Apply folder filter
-		const filtered = opts.folderFilter
-			? docsToSync.filter((doc) =>
-					(folderPaths.get(doc.id) ?? "").startsWith(opts.folderFilter!)
-				)
-			: docsToSync;
+		// Apply the folder selection, picker choices and rules, logging what
+		// each one leaves out
+		const selections = opts.selections ?? {};
+		const filtered: DocumentMetadata[] = [];
+		for (const doc of docsToSync) {
+			const docPath = folderPaths.get(doc.id) ?? doc.name;
+			const selection = selections[doc.id];
+			const rule =
+				folderCheck(doc, docPath) ??
+				(selection === "never" ? "never sync (library picker)" : selection ? null : ruleCheck(doc, docPath));
+			if (rule === null) {
+				filtered.push(doc);
+				continue;
+			}
+			results.excluded.push({ docId: doc.id, path: docPath, rule });
+			results.documents.push({ docId: doc.id, path: docPath, action: "excluded", rule });
+			progress(`[skip] ${docPath} (rule: ${rule})`);
+		}
+		const formats = OUTPUT_FORMATS.filter((format) => (opts.outputFormats ?? ["pdf"]).includes(format));
 
-		progress(`Found ${filtered.length} documents to check`);
+		// Output paths, renames and moves cover the filtered documents only. A
+		// synced document the filter now leaves out is removed like one
+		// deleted on the tablet, so its file never lingers where no later sync
+		// updates it (or in another profile's folder).
+		// Vault paths are built from sanitised names, segment by segment.
+		const safePaths = buildFolderTree(
+			documents.map((doc) => ({ ...doc, name: sanitizeName(doc.name) }))
+		);
+		if (templateText !== this.state.pathTemplate && Object.keys(this.state.syncedDocs).length > 0) {
+			progress(`Path template changed from "${this.state.pathTemplate}" to "${templateText}"; moving synced files`);
+		}
+		const keptFiles = await this.keptFilesInVault();
+		if (!opts.dryRun) this.state.keptFiles = keptFiles;
+		const outputPaths = this.planOutputPaths(filtered, safePaths, pathTemplate, keptFiles, opts, progress);
+		if (!opts.dryRun) {
+			this.state.originalNames = this.originalNamesFor(documents, folderPaths, safePaths, outputPaths);
+			this.state.pathTemplate = templateText;
+		}
+		await this.mirrorRemoteChanges(filtered, outputPaths, opts, results, progress);
 
+		progress(
+			`Found ${filtered.length} documents to check` +
+				(results.excluded.length > 0 ? ` (${results.excluded.length} left out by rules)` : "")
+		);
+
+		const only = opts.onlyDocuments ? new Set(opts.onlyDocuments) : null;
+		const resumeForced = new Set(this.state.resumeForced);
+		const resuming = opts.force ? 0 : filtered.filter((doc) => resumeForced.has(doc.id)).length;
+		if (resuming > 0) {
+			progress(`Resuming a cancelled forced sync: ${resuming} documents left`);
+		}
+
+		// Decide what each document needs first; only documents that will be
+		// written go through the download and conversion pipeline.
+		const pending: PendingDocument[] = [];
+		const now = Date.now();
 		for (const doc of filtered) {
 			const docPath = folderPaths.get(doc.id) ?? doc.name;
+			const force = opts.force || resumeForced.has(doc.id);
 
-			if (!opts.force && !this.state.needsSync(doc)) {
+			// A renderer update re-renders unchanged documents too. Their blobs
+			// are usually still in the client's blob cache, so this costs
+			// little or no downloading.
+			const changed = this.state.needsSync(doc);
+			const rerender = !changed && this.state.needsRerender(doc.id);
+			const reformat = !changed && !rerender && this.state.needsReformat(doc.id, formats);
+			const once = selections[doc.id] === "once" && !opts.dryRun;
+			if (!force && !changed && !rerender && !reformat) {
 				results.skipped.push(docPath);
+				if (once) results.syncedOnce.push(doc.id);
+				continue;
+			}
+			if (only && !only.has(doc.id)) {
+				const rule = "not selected in the sync preview";
+				results.excluded.push({ docId: doc.id, path: docPath, rule });
+				results.documents.push({ docId: doc.id, path: docPath, action: "excluded", rule });
+				progress(`[skip] ${docPath} (${rule})`);
+				continue;
+			}
+			const hold = this.state.holdReason(doc, now, force);
+			if (hold) {
+				const failure = this.state.failures[doc.id];
+				results.held.push(docPath);
+				results.documents.push({
+					docId: doc.id,
+					path: docPath,
+					action: hold,
+					error: failure.lastError,
+					failures: failure.count,
+				});
 				continue;
 			}
+			if (rerender && !force) {
+				progress(`Renderer updated since ${docPath} was synced; re-rendering`);
+			} else if (reformat && !force) {
+				progress(`Output formats changed since ${docPath} was synced; re-syncing`);
+			}
+
+			const conflictPolicy = opts.conflictPolicy ?? "conflict-copy";
+			const outputPath = outputPaths.get(doc.id)!;
+			const editedPath = await this.locallyEditedPath(doc.id, outputPath);
+			if (editedPath && (conflictPolicy === "skip" || opts.dryRun)) {
+				const action = conflictPolicy === "skip" ? "skipped" : "copied";
+				results.conflicts.push({ docId: doc.id, path: editedPath, action, copyPath: null });
+				progress(
+					`${opts.dryRun ? "[dry-run] " : ""}[conflict] ${editedPath} was edited in the vault; ` +
+						(action === "skipped" ? "skipping the new version" : "the new version will be saved as a copy")
+				);
+				if (action === "skipped") {
+					results.documents.push({ docId: doc.id, path: docPath, action: "conflict-skipped" });
+					continue;
+				}
+			}
 
 			if (opts.dryRun) {
-				progress(`[dry-run] Would sync: ${docPath}`);
+				let reason = "output formats changed";
+				if (opts.force) reason = "forced re-sync";
+				else if (force) reason = "resuming a cancelled forced sync";
+				else if (!this.state.syncedDocs[doc.id]) reason = "new";
+				else if (changed) reason = "changed on the tablet";
+				else if (rerender) reason = "renderer updated";
+				progress(`[dry-run] Would sync: ${docPath} (${reason})`);
 				results.synced.push(docPath);
+				results.documents.push({ docId: doc.id, path: docPath, action: "dry-run", output: outputPath, reason });
 				continue;
 			}
+			// Only a newer version can be updated page by page; a forced sync,
+			// a renderer or format change and a conflict copy render in full.
+			const pageUpdate = changed && !force && !editedPath && !this.state.needsReformat(doc.id, formats);
+			pending.push({ doc, docPath, outputPath, editedPath, once, pageUpdate });
+		}
+		if (results.held.length > 0) {
+			const quarantined = results.documents.filter((outcome) => outcome.action === "quarantined").length;
+			progress(
+				`Holding back ${results.held.length} failing documents ` +
+					`(${quarantined} quarantined, ${results.held.length - quarantined} waiting to retry)`
+			);
+		}
+
+		// Downloads and conversions of the next few documents overlap, while
+		// each document is written in turn. Preparing at most as many
+		// documents ahead as the two stages can hold bounds memory use.
+		const limits: PipelineLimits = {
+			downloads: createLimiter(opts.documentConcurrency ?? DEFAULT_DOCUMENT_CONCURRENCY),
+			conversions: createLimiter(opts.conversionConcurrency ?? DEFAULT_CONVERSION_CONCURRENCY),
+		};
+		const lookahead =
+			Math.max(1, opts.documentConcurrency ?? DEFAULT_DOCUMENT_CONCURRENCY) +
+			Math.max(1, opts.conversionConcurrency ?? DEFAULT_CONVERSION_CONCURRENCY);
+		// Failures are kept as values so a document prepared ahead never
+		// rejects before its turn comes.
+		const prepared: Promise<PreparedDocument | Error>[] = [];
+		const preparedSince: number[] = [];
+		const prepareUpTo = (end: number) => {
+			while (prepared.length < Math.min(end, pending.length)) {
+				const item = pending[prepared.length];
+				preparedSince.push(Date.now());
+				prepared.push(
+					this.prepareDocument(source, item, formats, progress, limits, opts.signal).catch(
+						(e: Error) => e
+					)
+				);
+			}
+		};
+
+		for (let index = 0; index < pending.length; index++) {
+			prepareUpTo(index + lookahead);
+			const { doc, docPath, outputPath, editedPath, once } = pending[index];
+			const ready = await prepared[index];
+			if (opts.signal?.aborted) {
+				this.cancelRun(pending.slice(index).map((item) => item.doc), opts, resumeForced, results);
+				break;
+			}
 
 			try {
-				await this.syncDocument(client, doc, docPath, progress);
+				if (ready instanceof Error) throw ready;
+				const written = await this.writeDocument(doc, outputPath, formats, ready, editedPath !== null);
+				if (editedPath) {
+					results.conflicts.push({ docId: doc.id, path: editedPath, action: "copied", copyPath: written });
+					progress(`[conflict] ${editedPath} was edited in the vault; saved the new version as ${written}`);
+				}
+				const bytesWritten = ready.mainData.byteLength + (ready.original?.data.byteLength ?? 0);
+				results.bytesLoaded += ready.bytesLoaded;
+				results.bytesWritten += bytesWritten;
+				results.documents.push({
+					docId: doc.id,
+					path: docPath,
+					action: ready.pagesRendered === null ? "synced" : "pages-updated",
+					output: written,
+					durationMs: Date.now() - preparedSince[index],
+					bytesLoaded: ready.bytesLoaded,
+					bytesWritten,
+					...(ready.pagesRendered === null ? {} : { pagesRendered: ready.pagesRendered }),
+				});
 				results.synced.push(docPath);
+				if (once) results.syncedOnce.push(doc.id);
 				progress(`[OK] Synced: ${docPath}`);
 			} catch (e) {
 				const message = (e as Error).message;
+				const failure = this.state.recordFailure(doc, docPath, message, Date.now(), quarantineAfter);
 				results.errors.push(`${docPath}: ${message}`);
 				results.errorDetails.push({
 					docId: doc.id,
 					path: docPath,
 					message,
+					failures: failure.count,
+					quarantined: failure.quarantined,
+				});
+				results.documents.push({
+					docId: doc.id,
+					path: docPath,
+					action: "failed",
+					error: message,
+					failures: failure.count,
+					durationMs: Date.now() - preparedSince[index],
 				});
 				progress(`[FAIL] Error: ${docPath}: ${message}`);
+				progress(
+					failure.quarantined
+						? `[quarantine] ${docPath} failed ${failure.count} times in a row; it is skipped until released`
+						: `Retrying ${docPath} after ${failure.retryAfter}`
+				);
 			}
 		}
+		// A cancelled run leaves work in flight; let it settle before returning.
+		await Promise.all(prepared);
 
-		this.state.lastSync = new Date().toISOString();
+		if (results.cancelled) {
+			progress(
+				`Sync cancelled — ${results.synced.length} synced, ${results.skipped.length} skipped, ` +
+					`${results.errors.length} errors; the next sync carries on from here`
+			);
+		} else {
+			// Applying part of a preview finishes only the documents picked.
+			if (!opts.dryRun) this.state.resumeForced = this.resumeForcedOutside(opts);
+			this.state.lastSync = new Date().toISOString();
+			progress(
+				`Sync finished — ${results.synced.length} synced, ` +
+					`${results.skipped.length} skipped, ${results.errors.length} errors`
+			);
+		}
 		await this.state.save(this.stateFile, this.fileOps);
 
-		progress(
-			`Sync finished — ${results.synced.length} synced, ` +
-				`${results.skipped.length} skipped, ${results.errors.length} errors`
-		);
-
 		await finalize();
 
 		return results;
 	}
 
+	// Documents not reached are picked up by the next run anyway when they
+	// changed; a forced run also remembers them so they are still re-synced.
+	private cancelRun(
+		remaining: DocumentMetadata[],
+		opts: SyncOptions,
+		resumeForced: Set<string>,
+		results: SyncResults
+	): void {
+		results.cancelled = true;
+		if (opts.dryRun) return;
+		this.state.resumeForced = [
+			...this.resumeForcedOutside(opts),
+			...remaining.filter((doc) => opts.force || resumeForced.has(doc.id)).map((doc) => doc.id),
+		];
+	}
+
+	// Documents still to resume that a run limited to `onlyDocuments` left alone.
+	private resumeForcedOutside(opts: SyncOptions): string[] {
+		if (!opts.onlyDocuments) return [];
+		const only = new Set(opts.onlyDocuments);
+		return this.state.resumeForced.filter((id) => !only.has(id));
+	}
+
 	/**
 	 * Write a human-readable Markdown log of the latest run into the sync folder.
 	 * Keeps a capped history of previous runs so users can troubleshoot failures.
@@ -255,7 +996,8 @@ export class SyncManager {
 	 */
 	private async writeRunLog(
 		results: SyncResults,
-		fileName: string
+		fileName: string,
+		history: number
 	): Promise<string> {
 		const logFilePath = joinPath(this.outputDir, fileName);
 
@@ -267,72 +1009,547 @@ export class SyncManager {
 		}
 		previous = stripLogHeader(previous).trim();
 
-		const section = formatRunSection(results);
-		let body = previous ? section + "\n\n" + previous : section;
-		if (body.length > SYNC_LOG_MAX_BYTES) {
-			body =
-				body.slice(0, SYNC_LOG_MAX_BYTES) +
-				"\n\n_…older log entries truncated…_\n";
+		// Keep the newest `history` runs, dropping whole runs (never part of
+		// one) while the log is over its size cap.
+		const sections = [formatRunSection(results).trim(), ...splitRunSections(previous)].slice(0, history);
+		let size = sections.reduce((sum, section) => sum + section.length + 2, 0);
+		while (sections.length > 1 && size > SYNC_LOG_MAX_BYTES) {
+			size -= sections.pop()!.length + 2;
 		}
 
-		const content = LOG_HEADER + body + "\n";
+		const content = LOG_HEADER + sections.join("\n\n") + "\n";
 
 		if (this.outputDir) await this.fileOps.mkdir(this.outputDir);
 		await this.fileOps.writeFile(logFilePath, content);
 
-		return logFilePath.startsWith(this.vaultPath + "/")
-			? logFilePath.substring(this.vaultPath.length + 1)
-			: logFilePath;
+		return this.vaultRelative(logFilePath);
 	}
 
-	private async syncDocument(
-		client: RemarkableCloudClient,
-		doc: DocumentMetadata,
-		docPath: string,
+	// Prepend the run to the JSON report next to the log, keeping the newest
+	// `history` runs. An unreadable report is started afresh.
+	private async writeRunReport(report: SyncReport, history: number): Promise<string> {
+		const reportPath = joinPath(this.outputDir, SYNC_REPORT_FILENAME);
+		let previous: string | null = null;
+		try {
+			previous = await this.fileOps.readFile(reportPath);
+		} catch {
+			previous = null;
+		}
+		if (this.outputDir) await this.fileOps.mkdir(this.outputDir);
+		await this.fileOps.writeFile(reportPath, appendSyncReport(previous, report, history));
+		return this.vaultRelative(reportPath);
+	}
+
+	/**
+	 * Choose the vault-relative PDF path of every live document, as laid out
+	 * by the path template. Documents whose names collide (after sanitising, ignoring case) are told apart by
+	 * a short document-id suffix. A document keeps the path it was last
+	 * written to while that is still one of its two candidates, so the choice
+	 * is stable across syncs; otherwise the lowest document id gets the plain
+	 * name.
+	 */
+	private planOutputPaths(
+		docs: DocumentMetadata[],
+		safePaths: Map<string, string>,
+		pathTemplate: PathTemplate,
+		keptFiles: Record<string, string>,
+		opts: SyncOptions,
+		progress: ProgressCallback
+	): Map<string, string> {
+		const sorted = docs.slice().sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+		const plain = new Map<string, string>();
+		for (const doc of sorted) {
+			const safeFolder = doc.parent ? (safePaths.get(doc.parent) ?? "") : "";
+			plain.set(doc.id, this.vaultRelative(this.outputPathFor(pathTemplate(doc, safeFolder))));
+		}
+
+		// Older versions let colliding documents share one PDF. Forget those
+		// entries so each document is written again to its own path.
+		const trackedBy = new Map<string, string[]>();
+		for (const [docId, info] of Object.entries(this.state.syncedDocs)) {
+			const key = pathKey(withExtension(info.path, ".pdf"));
+			trackedBy.set(key, [...(trackedBy.get(key) ?? []), docId]);
+		}
+		const shared = new Set<string>();
+		for (const ids of trackedBy.values()) {
+			if (ids.length < 2) continue;
+			progress(`${ids.length} documents shared ${this.state.syncedDocs[ids[0]].path}; re-syncing them to separate files`);
+			for (const id of ids) {
+				shared.add(id);
+				if (!opts.dryRun) delete this.state.syncedDocs[id];
+			}
+		}
+
+		// PDFs of removed documents stay where they are under the "keep"
+		// policy, so their paths can't be handed to another document: not
+		// in the run that removes them, nor in any later one. A document
+		// restored on the tablet may take its own file back.
+		const live = new Set(sorted.map((doc) => doc.id));
+		const keepsRemoved = (opts.removalPolicy ?? "keep") === "keep";
+		const taken = new Set<string>();
+		for (const [key, ids] of trackedBy) {
+			if (keepsRemoved && ids.length === 1 && !live.has(ids[0])) taken.add(key);
+		}
+		for (const [path, docId] of Object.entries(keptFiles)) {
+			if (!live.has(docId)) taken.add(pathKey(withExtension(path, ".pdf")));
+		}
+		const planned = new Map<string, string>();
+		const claim = (docId: string, path: string) => {
+			planned.set(docId, path);
+			taken.add(pathKey(path));
+		};
+
+		for (const doc of sorted) {
+			const storedPath = this.state.syncedDocs[doc.id]?.path;
+			if (!storedPath || shared.has(doc.id)) continue;
+			const stored = withExtension(storedPath, ".pdf");
+			if (taken.has(pathKey(stored))) continue;
+			const candidates = [plain.get(doc.id)!, withIdSuffix(plain.get(doc.id)!, doc.id)];
+			if (candidates.includes(stored)) claim(doc.id, stored);
+		}
+		for (const doc of sorted) {
+			if (planned.has(doc.id)) continue;
+			const path = plain.get(doc.id)!;
+			if (!taken.has(pathKey(path))) {
+				claim(doc.id, path);
+				continue;
+			}
+			const suffixed = withIdSuffix(path, doc.id);
+			claim(doc.id, suffixed);
+			progress(`Name collision: ${path} is taken; using ${suffixed}`);
+		}
+		return planned;
+	}
+
+	// Kept files still in the vault; deleting one frees its path again.
+	private async keptFilesInVault(): Promise<Record<string, string>> {
+		const kept: Record<string, string> = {};
+		for (const [path, docId] of Object.entries(this.state.keptFiles)) {
+			if (await this.fileOps.exists(joinPath(this.vaultPath, path))) kept[path] = docId;
+		}
+		return kept;
+	}
+
+	/**
+	 * Bring already-synced PDFs in line with the tablet, using the path each
+	 * one was written to: renamed or moved documents are moved to their new
+	 * path, and deleted (or trashed) ones, or ones the filter now leaves out,
+	 * are handled per the removal policy. `filtered` are the documents this
+	 * run syncs. Runs before any downloads, so a document that was both moved
+	 * and edited is re-rendered in its new place. Failures are recorded per
+	 * document.
+	 */
+	private async mirrorRemoteChanges(
+		filtered: DocumentMetadata[],
+		outputPaths: Map<string, string>,
+		opts: SyncOptions,
+		results: SyncResults,
 		progress: ProgressCallback
 	): Promise<void> {
-		progress(`Downloading: ${docPath}...`);
-		const zipData = await client.downloadDocument(doc.id);
+		const live = new Map(filtered.map((doc) => [doc.id, doc]));
+		const leftOut = new Map(results.excluded.map((skip) => [skip.docId, skip.rule]));
+		const dryRun = opts.dryRun ?? false;
+		const only = opts.onlyDocuments ? new Set(opts.onlyDocuments) : null;
 
-		progress(`Converting: ${docPath}...`);
-		const pdfData = await convertDocument(doc.id, zipData);
+		for (const [docId, info] of Object.entries(this.state.syncedDocs)) {
+			if (only && !only.has(docId)) continue;
+			const doc = live.get(docId);
+			let operations: FileOperation[];
+			try {
+				operations = doc
+					? await this.mirrorMove(docId, info, outputPaths.get(docId)!, dryRun)
+					: await this.mirrorRemoval(docId, info, opts.removalPolicy ?? "keep", leftOut.get(docId), dryRun);
+			} catch (e) {
+				const message = (e as Error).message;
+				results.errors.push(`${info.path}: ${message}`);
+				results.errorDetails.push({ docId, path: info.path, message });
+				progress(`[FAIL] Error: ${info.path}: ${message}`);
+				continue;
+			}
+			for (const operation of operations) {
+				results.fileOperations.push(operation);
+				const line = describeFileOperation(operation);
+				progress(dryRun ? `[dry-run] Would apply: ${line}` : line);
+			}
+		}
 
-		// Sanitize path for Windows
-		const safePath = docPath.replace(/[<>:"|?*]/g, "_");
-		const outputPath = joinPath(this.outputDir, safePath + ".pdf");
+		if (!dryRun && results.fileOperations.length > 0) {
+			await this.state.save(this.stateFile, this.fileOps);
+		}
+	}
 
-		// Ensure parent directory exists
-		const parentDir = outputPath.substring(0, outputPath.lastIndexOf("/"));
-		if (parentDir) await this.fileOps.mkdir(parentDir);
+	// Move the document's files to follow its new planned PDF path; each file
+	// keeps its own extension.
+	private async mirrorMove(
+		docId: string,
+		info: SyncedDocInfo,
+		target: string,
+		dryRun: boolean
+	): Promise<FileOperation[]> {
+		const operations: FileOperation[] = [];
+		const mainTarget = withExtension(target, extensionOf(info.path));
+		const moved = await this.moveFile(docId, info.path, mainTarget, dryRun);
+		if (moved) operations.push(moved);
+		if (!dryRun) info.path = mainTarget;
+
+		if (info.originalPath) {
+			const originalTarget = originalCopyPath(target, extensionOf(info.originalPath));
+			const movedOriginal = await this.moveFile(docId, info.originalPath, originalTarget, dryRun);
+			if (movedOriginal) operations.push(movedOriginal);
+			if (!dryRun) info.originalPath = originalTarget;
+		}
+		return operations;
+	}
+
+	// Null when the file is already in place, or gone (the user deleted it),
+	// in which case the caller just follows along.
+	private async moveFile(
+		docId: string,
+		fromPath: string,
+		toPath: string,
+		dryRun: boolean
+	): Promise<FileOperation | null> {
+		if (fromPath === toPath) return null;
+
+		const from = joinPath(this.vaultPath, fromPath);
+		const to = joinPath(this.vaultPath, toPath);
+		if (!(await this.fileOps.exists(from))) return null;
+		if (await this.fileOps.exists(to)) {
+			throw new Error(`Cannot move to ${toPath}: a file already exists there`);
+		}
+
+		if (!dryRun) await this.fileOps.rename(from, to);
+		return { action: "moved", docId, from: fromPath, to: toPath };
+	}
+
+	// `rule` is the rule that now leaves the document out; none when it was
+	// deleted on the tablet.
+	private async mirrorRemoval(
+		docId: string,
+		info: SyncedDocInfo,
+		policy: RemovalPolicy,
+		rule: string | undefined,
+		dryRun: boolean
+	): Promise<FileOperation[]> {
+		const operations: FileOperation[] = [];
+		for (const path of info.originalPath ? [info.path, info.originalPath] : [info.path]) {
+			const operation = await this.removeFile(docId, path, policy, dryRun);
+			if (operation) operations.push(rule ? { ...operation, rule } : operation);
+		}
+		if (!dryRun) delete this.state.syncedDocs[docId];
+		return operations;
+	}
+
+	private async removeFile(
+		docId: string,
+		path: string,
+		policy: RemovalPolicy,
+		dryRun: boolean
+	): Promise<FileOperation | null> {
+		const from = joinPath(this.vaultPath, path);
+		if (!(await this.fileOps.exists(from))) return null;
+
+		if (policy === "keep") {
+			if (!dryRun) this.state.keptFiles[path] = docId;
+			return { action: "kept", docId, from: path, to: null };
+		}
+		if (policy === "delete") {
+			if (!dryRun) await this.fileOps.remove(from);
+			return { action: "deleted", docId, from: path, to: null };
+		}
+		const to = await this.uniquePath(
+			joinPath(joinPath(this.outputDir, ARCHIVE_FOLDER), this.outputRelative(from))
+		);
+		if (!dryRun) await this.fileOps.rename(from, to);
+		return { action: "archived", docId, from: path, to: this.vaultRelative(to) };
+	}
+
+	// "a/b.pdf" → "a/b (2).pdf" when the path is taken, and so on.
+	private async uniquePath(filePath: string): Promise<string> {
+		if (!(await this.fileOps.exists(filePath))) return filePath;
+		const dot = filePath.lastIndexOf(".");
+		const stem = dot > filePath.lastIndexOf("/") ? filePath.substring(0, dot) : filePath;
+		const ext = filePath.substring(stem.length);
+		for (let n = 2; ; n++) {
+			const candidate = `${stem} (${n})${ext}`;
+			if (!(await this.fileOps.exists(candidate))) return candidate;
+		}
+	}
 
-		// Write PDF
-		await this.fileOps.writeBinaryFile(outputPath, pdfData);
+	/**
+	 * The vault file for a document's sanitised path, shortened to keep the
+	 * vault-relative path within MAX_PATH_LENGTH.
+	 */
+	private outputPathFor(safeDocPath: string): string {
+		const fitted = fitPathLength(this.vaultRelative(joinPath(this.outputDir, safeDocPath)));
+		return joinPath(this.vaultPath, fitted) + ".pdf";
+	}
 
-		// Compute MD5-like hash (simple hash for change detection)
-		const hash = simpleHash(pdfData);
+	/**
+	 * Map each live document, and each vault folder standing for a tablet
+	 * folder, whose vault path differs from its tablet path back to the
+	 * tablet path, so the original name is never lost. A vault folder stands
+	 * for a tablet folder when a document's vault folder ends in the
+	 * document's tablet folder, as it does for {folder}/{name}.
+	 */
+	private originalNamesFor(
+		documents: DocumentMetadata[],
+		folderPaths: Map<string, string>,
+		safePaths: Map<string, string>,
+		outputPaths: Map<string, string>
+	): Record<string, string> {
+		const names: Record<string, string> = {};
+		const byId = new Map(documents.map((doc) => [doc.id, doc]));
+		for (const doc of documents) {
+			const original = folderPaths.get(doc.id);
+			const output = outputPaths.get(doc.id);
+			if (original === undefined || output === undefined || doc.isTrashed) continue;
+			if (output !== this.vaultRelative(joinPath(this.outputDir, original)) + ".pdf") {
+				names[output] = original;
+			}
 
-		// Relative path from vault root
-		const relativePath = outputPath.startsWith(this.vaultPath + "/")
-			? outputPath.substring(this.vaultPath.length + 1)
-			: outputPath;
+			// Walk up the tablet folders while the vault folders follow them.
+			const safeFolder = (doc.parent && safePaths.get(doc.parent)) || "";
+			const vaultFolder = output.substring(0, output.lastIndexOf("/") + 1);
+			if (!safeFolder || !("/" + vaultFolder).endsWith(`/${safeFolder}/`)) continue;
+			const base = vaultFolder.substring(0, vaultFolder.length - safeFolder.length - 1);
+			for (let folder = byId.get(doc.parent); folder && isFolder(folder); folder = byId.get(folder.parent)) {
+				const safe = safePaths.get(folder.id);
+				const tabletPath = folderPaths.get(folder.id);
+				if (safe !== undefined && tabletPath !== undefined && safe !== tabletPath) {
+					names[base + safe] = tabletPath;
+				}
+			}
+		}
+		return names;
+	}
+
+	// Relative path from vault root
+	private vaultRelative(filePath: string): string {
+		return filePath.startsWith(this.vaultPath + "/")
+			? filePath.substring(this.vaultPath.length + 1)
+			: filePath;
+	}
+
+	// Path below the sync folder (files outside it keep just their name).
+	private outputRelative(filePath: string): string {
+		if (!this.outputDir) return filePath;
+		return filePath.startsWith(this.outputDir + "/")
+			? filePath.substring(this.outputDir.length + 1)
+			: filePath.substring(filePath.lastIndexOf("/") + 1);
+	}
 
+	/**
+	 * The vault path of this document's PDF if it has been edited since it was
+	 * synced, i.e. its content no longer matches the hash recorded when it was
+	 * written. Null when unedited, missing, or never synced to this path.
+	 */
+	private async locallyEditedPath(docId: string, outputPath: string): Promise<string | null> {
+		const synced = this.state.syncedDocs[docId];
+		if (!synced?.hash || withExtension(synced.path, ".pdf") !== outputPath) {
+			return null;
+		}
+		const current = await this.fileOps.readBinaryFile(joinPath(this.vaultPath, synced.path));
+		return current && simpleHash(current) !== synced.hash ? synced.path : null;
+	}
+
+	// Download a document and render the files to write, each step in its
+	// pipeline stage. Nothing is written to the vault here.
+	private async prepareDocument(
+		source: DocumentSource,
+		item: PendingDocument,
+		formats: OutputFormat[],
+		progress: ProgressCallback,
+		limits: PipelineLimits,
+		signal?: AbortSignal
+	): Promise<PreparedDocument> {
+		const { doc, docPath } = item;
+		if (item.pageUpdate) {
+			const updated = await this.preparePageUpdate(source, item, formats, progress, limits, signal);
+			if (updated) return updated;
+		}
+
+		const zipData = await limits.downloads(() => {
+			progress(`Downloading: ${docPath}...`);
+			return source.downloadDocument(doc.id, signal);
+		});
+		const original = formats.includes("original") ? originalFile(doc.id, zipData) : null;
+
+		// The main file is the rendered PDF, or the original when that is the
+		// only format. Notebooks have no original, so they are always rendered.
+		if (original && !formats.includes("pdf")) {
+			return {
+				mainData: original.data,
+				mainExtension: original.extension,
+				original: null,
+				keepOriginal: false,
+				pages: null,
+				backgroundHash: null,
+				bytesLoaded: totalBytes(zipData),
+				pagesRendered: null,
+			};
+		}
+		const mainData = await limits.conversions(() => {
+			progress(`Converting: ${docPath}...`);
+			return convertDocument(doc.id, zipData, signal);
+		});
+		const background = zipData.get(`${doc.id}.pdf`);
+		return {
+			mainData,
+			mainExtension: null,
+			original,
+			keepOriginal: false,
+			pages: await pageRecords(doc.id, zipData),
+			backgroundHash: background ? await sha256Hex(background) : null,
+			bytesLoaded: totalBytes(zipData),
+			pagesRendered: null,
+		};
+	}
+
+	// Re-render only the pages whose .rm file changed since the last sync and
+	// splice them into the PDF already in the vault, downloading just those
+	// pages (plus the original PDF when they are drawn on it). Returns null
+	// when the document has to be rendered in full: no page records yet, a
+	// PDF edited or missing in the vault, a new original, or every page new.
+	private async preparePageUpdate(
+		source: DocumentSource,
+		item: PendingDocument,
+		formats: OutputFormat[],
+		progress: ProgressCallback,
+		limits: PipelineLimits,
+		signal?: AbortSignal
+	): Promise<PreparedDocument | null> {
+		const { doc, docPath } = item;
+		const previous = this.state.syncedDocs[doc.id];
+		const previousPages = previous?.pages;
+		if (!previousPages || rendererVersionOf(previous) !== RENDERER_VERSION) return null;
+		const existing = await this.fileOps.readBinaryFile(joinPath(this.vaultPath, previous.path));
+		if (!existing || simpleHash(existing) !== previous.hash) return null;
+
+		// Only the pages and the background are compared, so a local source
+		// reads nothing else (an EPUB original in particular) to hash.
+		const backgroundName = `${doc.id}.pdf`;
+		const hashes = await limits.downloads(() =>
+			source.fileHashes(doc.id, signal, (name) => name.endsWith(".rm") || name === backgroundName)
+		);
+		const backgroundHash = hashes.get(backgroundName) ?? null;
+		if (backgroundHash !== (previous.backgroundHash ?? null)) return null;
+
+		// Everything but the pages and the original is small: .content for the
+		// page order, .metadata and per-page metadata for the converter.
+		const isOriginal = (name: string) => name === backgroundName || name === `${doc.id}.epub`;
+		const files = await limits.downloads(() => {
+			progress(`Checking pages: ${docPath}...`);
+			return source.downloadDocument(doc.id, signal, (name) => !name.endsWith(".rm") && !isOriginal(name));
+		});
+		let bytesLoaded = totalBytes(files);
+		const pageIds = contentPageIds(parseJsonOrEmpty(files.get(`${doc.id}.content`) ?? null));
+		if (pageIds.length === 0) return null;
+		const pages = pageIds.map((id) => ({ id, hash: hashes.get(pageFileName(doc.id, id)) ?? "" }));
+
+		// On an original PDF each page is drawn over the original's page at
+		// the same index, so a page that moved is redrawn too.
+		const previousIndex = new Map(previousPages.map((page, i) => [page.id, i]));
+		const changed: number[] = [];
+		const spliced: SplicedPage[] = pages.map((page, i) => {
+			const index = previousIndex.get(page.id);
+			if (index !== undefined && previousPages[index].hash === page.hash && (!backgroundHash || index === i)) {
+				return { from: "existing", index };
+			}
+			changed.push(i);
+			return { from: "rendered", index: changed.length - 1 };
+		});
+		if (changed.length === pages.length) return null;
+
+		if (changed.length > 0) {
+			const needed = new Set(changed.map((i) => pageFileName(doc.id, pages[i].id)));
+			const pageFiles = await limits.downloads(() =>
+				source.downloadDocument(doc.id, signal, (name) => needed.has(name) || (!!backgroundHash && name === backgroundName))
+			);
+			for (const [name, data] of pageFiles) files.set(name, data);
+			bytesLoaded += totalBytes(pageFiles);
+		}
+		const mainData = await limits.conversions(async () => {
+			progress(`Re-rendering ${changed.length} of ${pages.length} pages: ${docPath}...`);
+			const rendered = changed.length > 0 ? await convertPages(doc.id, files, changed, signal) : null;
+			return splicePdfPages(existing, rendered, spliced);
+		});
+		return {
+			mainData,
+			mainExtension: null,
+			original: null,
+			keepOriginal: formats.includes("original"),
+			pages,
+			backgroundHash,
+			bytesLoaded,
+			pagesRendered: changed.length,
+		};
+	}
+
+	/**
+	 * Write a prepared document in each output format at `target`, its path
+	 * from the path template; returns the vault-relative path of the main
+	 * file. With `asConflictCopy` the main file goes next to the locally
+	 * edited one instead of over it, and the state keeps pointing at the
+	 * edited file so later versions are protected too.
+	 */
+	private async writeDocument(
+		doc: DocumentMetadata,
+		target: string,
+		formats: OutputFormat[],
+		prepared: PreparedDocument,
+		asConflictCopy = false
+	): Promise<string> {
+		const { mainData, original } = prepared;
+		const previous = this.state.syncedDocs[doc.id];
+		const mainPath = prepared.mainExtension ? withExtension(target, prepared.mainExtension) : target;
+		// A page update leaves the unchanged original copy where it is.
+		const originalPath = original
+			? originalCopyPath(target, original.extension)
+			: prepared.keepOriginal
+				? previous?.originalPath
+				: undefined;
+
+		const targetPath = joinPath(this.vaultPath, mainPath);
+		const outputPath = asConflictCopy
+			? await this.uniquePath(conflictCopyPath(targetPath))
+			: targetPath;
+		await this.writeVaultFile(outputPath, mainData);
+		if (original && originalPath) {
+			await this.writeVaultFile(joinPath(this.vaultPath, originalPath), original.data);
+		}
+
+		const relativePath = this.vaultRelative(outputPath);
+
+		// A conflict copy leaves the synced PDF, and so its pages, as they were.
+		const pages = asConflictCopy ? previous.pages : prepared.pages;
+		const backgroundHash = asConflictCopy ? previous.backgroundHash : prepared.backgroundHash;
 		this.state.syncedDocs[doc.id] = {
 			version: doc.version,
-			path: relativePath,
-			hash,
+			path: asConflictCopy ? previous.path : relativePath,
+			hash: asConflictCopy ? previous.hash : simpleHash(mainData),
 			syncedAt: new Date().toISOString(),
+			rendererVersion: RENDERER_VERSION,
+			formats,
+			...(originalPath ? { originalPath } : {}),
+			...(pages ? { pages } : {}),
+			...(backgroundHash ? { backgroundHash } : {}),
 		};
+		delete this.state.failures[doc.id];
 		await this.state.save(this.stateFile, this.fileOps);
+		return relativePath;
 	}
 
-	async listRemote(
-		client: RemarkableCloudClient
-	): Promise<
-		{ id: string; name: string; path: string; version: number; modified: string; synced: boolean }[]
-	> {
-		const documents = await client.listDocuments();
+	private async writeVaultFile(filePath: string, data: Uint8Array): Promise<void> {
+		const parentDir = filePath.substring(0, filePath.lastIndexOf("/"));
+		if (parentDir) await this.fileOps.mkdir(parentDir);
+		await this.fileOps.writeBinaryFile(filePath, data);
+	}
+
+	async listRemote(source: DocumentSource): Promise<RemoteDocument[]> {
+		const { documents } = await source.fetchListing(this.state.listing);
 		const folderPaths = buildFolderTree(documents);
-		const result: { id: string; name: string; path: string; version: number; modified: string; synced: boolean }[] = [];
+		const result: RemoteDocument[] = [];
 
 		for (const doc of documents) {
 			if (isDocument(doc) && !doc.isTrashed) {
@@ -349,6 +1566,24 @@ export class SyncManager {
 		return result;
 	}
 
+	/** Documents whose last sync attempts failed, most failures first. */
+	failingDocuments(): (FailureRecord & { docId: string })[] {
+		return Object.entries(this.state.failures)
+			.map(([docId, failure]) => ({ docId, ...failure }))
+			.sort((a, b) => b.count - a.count || a.path.localeCompare(b.path));
+	}
+
+	/** Forget the failures of these documents, so the next sync tries them again. */
+	async releaseFailures(docIds: string[]): Promise<void> {
+		for (const docId of docIds) delete this.state.failures[docId];
+		await this.state.save(this.stateFile, this.fileOps);
+	}
+
+	/** True when the document has been synced into this folder. */
+	hasSynced(docId: string): boolean {
+		return docId in this.state.syncedDocs;
+	}
+
 	get lastSyncTime(): string | null {
 		return this.state.lastSync;
 	}
@@ -358,12 +1593,87 @@ export class SyncManager {
 	}
 }
 
+// --- Document pipeline ---
+
+/** A document that will be written, with what was decided about it. */
+interface PendingDocument {
+	doc: DocumentMetadata;
+	docPath: string;
+	outputPath: string;
+	/** Vault path of the locally edited PDF, when the new version is a copy. */
+	editedPath: string | null;
+	once: boolean;
+	/** Try re-rendering just the changed pages; see preparePageUpdate. */
+	pageUpdate: boolean;
+}
+
+/** The files of a downloaded and rendered document, ready to write. */
+interface PreparedDocument {
+	mainData: Uint8Array;
+	/** Extension replacing ".pdf" when the main file is the original. */
+	mainExtension: ".pdf" | ".epub" | null;
+	/** The original, written next to the rendered PDF. */
+	original: { data: Uint8Array; extension: ".pdf" | ".epub" } | null;
+	/** The original copy is unchanged and stays as it is. */
+	keepOriginal: boolean;
+	/** Page records of the rendered PDF; null when nothing was rendered. */
+	pages: PageRecord[] | null;
+	backgroundHash: string | null;
+	bytesLoaded: number;
+	/** Pages re-rendered by a page update; null after a full render. */
+	pagesRendered: number | null;
+}
+
+function rendererVersionOf(synced: SyncedDocInfo): number {
+	return synced.rendererVersion ?? UNSTAMPED_RENDERER_VERSION;
+}
+
+function totalBytes(files: Map<string, Uint8Array>): number {
+	let total = 0;
+	for (const data of files.values()) total += data.byteLength;
+	return total;
+}
+
+// Page records for a fully downloaded document, or null when its .content
+// lists no pages (the converter then falls back to the .rm files present,
+// which a page update cannot reproduce).
+async function pageRecords(docId: string, files: Map<string, Uint8Array>): Promise<PageRecord[] | null> {
+	const pageIds = contentPageIds(parseJsonOrEmpty(files.get(`${docId}.content`) ?? null));
+	if (pageIds.length === 0) return null;
+	const pages: PageRecord[] = [];
+	for (const id of pageIds) {
+		const data = files.get(pageFileName(docId, id));
+		pages.push({ id, hash: data ? await sha256Hex(data) : "" });
+	}
+	return pages;
+}
+
+interface PipelineLimits {
+	downloads: Limiter;
+	conversions: Limiter;
+}
+
+/** Count entries whose hash is the same in both listings (i.e. not refetched). */
+function countReusedEntries(previous: RemoteListing, current: RemoteListing): number {
+	const hashes = new Map<string, string>();
+	for (const doc of previous.documents) hashes.set(doc.id, doc.entryHash);
+	return current.documents.filter((doc) => hashes.get(doc.id) === doc.entryHash).length;
+}
+
 // --- Log formatting ---
 
 const LOG_HEADER =
 	"# reMarkable Sync Log\n\n" +
 	"_Auto-generated by the reMarkable Sync plugin. Most recent run first._\n\n";
 
+// Split a log body (header removed) into its runs, newest first.
+function splitRunSections(body: string): string[] {
+	return body
+		.split(/^(?=## Sync )/m)
+		.map((section) => section.trim())
+		.filter((section) => section);
+}
+
 /** Remove the standard header so previous runs can be re-appended cleanly. */
 function stripLogHeader(content: string): string {
 	if (content.startsWith(LOG_HEADER)) {
@@ -383,7 +1693,8 @@ function formatRunSection(results: SyncResults): string {
 	lines.push("");
 	lines.push(
 		`- **Result:** ${results.synced.length} synced, ` +
-			`${results.skipped.length} skipped, ${results.errors.length} errors`
+			`${results.skipped.length} skipped, ${results.errors.length} errors` +
+			(results.cancelled ? " (cancelled)" : "")
 	);
 	lines.push(`- **Duration:** ${seconds}s`);
 	lines.push("");
@@ -397,6 +1708,39 @@ function formatRunSection(results: SyncResults): string {
 		lines.push("");
 	}
 
+	const held = results.documents.filter((outcome) => outcome.action === "quarantined" || outcome.action === "backing-off");
+	if (held.length > 0) {
+		lines.push(`### Held back after failures (${held.length})`);
+		lines.push("");
+		for (const outcome of held) {
+			const status = outcome.action === "quarantined" ? "quarantined" : "waiting to retry";
+			lines.push(`- \`${outcome.path}\` — ${status} after ${outcome.failures} failures: ${outcome.error}`);
+		}
+		lines.push("");
+	}
+
+	if (results.fileOperations.length > 0) {
+		lines.push(`### File operations (${results.fileOperations.length})`);
+		lines.push("");
+		for (const operation of results.fileOperations) {
+			lines.push(`- ${describeFileOperation(operation, "`")}`);
+		}
+		lines.push("");
+	}
+
+	if (results.conflicts.length > 0) {
+		lines.push(`### Conflicts (${results.conflicts.length})`);
+		lines.push("");
+		for (const conflict of results.conflicts) {
+			lines.push(
+				conflict.copyPath
+					? `- \`${conflict.path}\` was edited in the vault — new version saved as \`${conflict.copyPath}\``
+					: `- \`${conflict.path}\` was edited in the vault — new version ${conflict.action === "skipped" ? "skipped" : "not written (dry run)"}`
+			);
+		}
+		lines.push("");
+	}
+
 	if (results.synced.length > 0) {
 		lines.push(`### Synced (${results.synced.length})`);
 		lines.push("");
@@ -421,8 +1765,56 @@ function formatRunSection(results: SyncResults): string {
 	return lines.join("\n");
 }
 
+/** "Moved: a → b", "Deleted: a", ...; `quote` wraps each path (e.g. in backticks). */
+function describeFileOperation(operation: FileOperation, quote = ""): string {
+	const from = `${quote}${operation.from}${quote}`;
+	const why = operation.rule ? `left out by ${operation.rule}` : "deleted on reMarkable";
+	switch (operation.action) {
+		case "moved":
+			return `Moved: ${from} → ${quote}${operation.to}${quote}`;
+		case "archived":
+			return `Archived (${why}): ${from} → ${quote}${operation.to}${quote}`;
+		case "deleted":
+			return `Deleted (${why}): ${from}`;
+		case "kept":
+			return `Kept (${why}): ${from}`;
+	}
+}
+
 // --- Utilities ---
 
+// "Notes/Meeting.pdf" → "Notes/Meeting (1a2b3c4d).pdf"
+function withIdSuffix(outputPath: string, docId: string): string {
+	return outputPath.replace(/\.pdf$/, ` (${docId.substring(0, ID_SUFFIX_LENGTH)}).pdf`);
+}
+
+// Paths that only differ in case or Unicode normalisation are the same file
+// on Windows and macOS.
+function pathKey(path: string): string {
+	return path.normalize("NFC").toLowerCase();
+}
+
+// "Notes/Meeting.pdf" → "Notes/Meeting (conflict 2024-05-01).pdf"
+function conflictCopyPath(outputPath: string): string {
+	const date = new Date().toISOString().substring(0, 10);
+	return withExtension(outputPath, ` (conflict ${date})${extensionOf(outputPath)}`);
+}
+
+// "Notes/Meeting.pdf" → "Notes/Meeting (original).epub"
+function originalCopyPath(pdfPath: string, extension: string): string {
+	return withExtension(pdfPath, ` (original)${extension}`);
+}
+
+// "Notes/Meeting.pdf" → ".pdf"
+function extensionOf(path: string): string {
+	return /\.[^./]+$/.exec(path)?.[0] ?? "";
+}
+
+// ("Notes/Meeting.pdf", ".epub") → "Notes/Meeting.epub"
+function withExtension(path: string, extension: string): string {
+	return path.substring(0, path.length - extensionOf(path).length) + extension;
+}
+
 // Join a base directory and a child path. The base may be empty — used when
 // the file ops are vault-relative (Obsidian) — in which case the child is
 // returned as-is, avoiding a spurious leading "/". A non-empty base (e.g. the
@@ -0,0 +1,124 @@
+/**
+ * Unit tests for sync plans built from dry runs.
+ *
+ * Plans come from real dry runs against the mock cloud, so every kind of
+ * change is reported the way SyncManager records it.
+ *
+ * Run: npx tsx --test src/sync-plan.test.ts
+ */
+import test from "node:test";
+import assert from "node:assert/strict";
+import { RemarkableCloudClient, type FileOps } from "./cloud-client";
+import { SyncManager, SyncState } from "./sync-manager";
+import { buildSyncPlan, isApplicable } from "./sync-plan";
+import { loadReferenceLibrary, type MockCloud } from "./mock-cloud";
+
+const PAGES_DOC = "b7d19d8b-8ecc-43a8-a79e-c024c29eab11";
+const TEXT_DOC = "22bf5fc4-dca3-4ff3-8ebb-2b7c50dd1875";
+
+function memoryFileOps(): { ops: FileOps; files: Map<string, string | Uint8Array> } {
+	const files = new Map<string, string | Uint8Array>();
+	const ops: FileOps = {
+		readFile: async (p) => {
+			const v = files.get(p);
+			return typeof v === "string" ? v : null;
+		},
+		readBinaryFile: async (p) => {
+			const v = files.get(p);
+			return v instanceof Uint8Array ? v : null;
+		},
+		writeFile: async (p, data) => {
+			files.set(p, data);
+		},
+		writeBinaryFile: async (p, data) => {
+			files.set(p, data);
+		},
+		mkdir: async () => {},
+		exists: async (p) => files.has(p),
+		remove: async (p) => {
+			files.delete(p);
+		},
+		rename: async (from, to) => {
+			const data = files.get(from);
+			if (data === undefined) throw new Error(`No such file: ${from}`);
+			files.set(to, data);
+			files.delete(from);
+		},
+	};
+	return { ops, files };
+}
+
+async function registeredClient(cloud: MockCloud): Promise<RemarkableCloudClient> {
+	const client = new RemarkableCloudClient("/cfg", memoryFileOps().ops, cloud.fetch);
+	client.retryPolicy = { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 0, timeoutMs: 5000 };
+	await client.init();
+	assert.equal(await client.registerDevice("mock-code"), true);
+	assert.equal(await client.refreshUserToken(), true);
+	return client;
+}
+
+/** A library synced without Pages, then changed on the tablet in three ways. */
+async function changedLibrary() {
+	const cloud = loadReferenceLibrary();
+	const client = await registeredClient(cloud);
+	const { ops, files } = memoryFileOps();
+	const state = new SyncState();
+	const manager = new SyncManager("", "reMarkable", ops, state);
+	await manager.sync(client, { writeLog: false, writeReport: false, rules: { exclude: ["**/Pages"] } });
+
+	const removedId = Object.keys(state.syncedDocs).find((id) => id !== TEXT_DOC)!;
+	const removedPath = state.syncedDocs[removedId].path;
+	cloud.updateMetadata(TEXT_DOC, { visibleName: "Renamed" });
+	cloud.removeDocument(removedId);
+	return { client, files, state, manager, removedId, removedPath };
+}
+
+test("a dry run becomes one plan item per document, changes first", async () => {
+	const { client, manager, removedId, removedPath } = await changedLibrary();
+	const results = await manager.sync(client, {
+		writeLog: false,
+		writeReport: false,
+		dryRun: true,
+		removalPolicy: "delete",
+		rules: { exclude: ["**/Renamed"] },
+	});
+	const plan = buildSyncPlan(results);
+
+	const applicable = plan.items.filter(isApplicable);
+	assert.deepEqual(
+		applicable.map((item) => [item.docId, item.action]).sort(),
+		[[PAGES_DOC, "create"], [TEXT_DOC, "delete"], [removedId, "delete"]].sort()
+	);
+	assert.deepEqual(plan.items.slice(0, applicable.length), applicable);
+
+	const pages = applicable.find((item) => item.docId === PAGES_DOC)!;
+	assert.deepEqual(pages.changes, ["download to reMarkable/Reference Sheets/Pages.pdf (new)"]);
+	const text = applicable.find((item) => item.docId === TEXT_DOC)!;
+	assert.equal(text.path, "Reference Sheets/Renamed");
+	// Renamed into the exclude rule: removed rather than moved.
+	assert.deepEqual(text.changes, [
+		'delete reMarkable/Reference Sheets/Text.pdf (left out by exclude "**/Renamed")',
+	]);
+	assert.deepEqual(applicable.find((item) => item.docId === removedId)!.changes, [
+		`delete ${removedPath} (deleted on the tablet)`,
+	]);
+	assert.equal(plan.unchanged, results.skipped.length);
+});
+
+test("applying part of a plan leaves the other changes for later", async () => {
+	const { client, files, state, manager, removedId, removedPath } = await changedLibrary();
+	const options = { writeLog: false, writeReport: false, removalPolicy: "delete" as const };
+	// Left over from a cancelled forced sync.
+	state.resumeForced = [TEXT_DOC, PAGES_DOC];
+
+	const results = await manager.sync(client, { ...options, onlyDocuments: [PAGES_DOC, removedId] });
+	assert.deepEqual(results.synced, ["Reference Sheets/Pages"]);
+	assert.ok(files.has("reMarkable/Reference Sheets/Pages.pdf"));
+	assert.ok(!files.has(removedPath));
+	assert.ok(files.has("reMarkable/Reference Sheets/Text.pdf"), "the unpicked move waits");
+	assert.equal(state.syncedDocs[TEXT_DOC].path, "reMarkable/Reference Sheets/Text.pdf");
+	assert.deepEqual(state.resumeForced, [TEXT_DOC], "the unpicked document is still to be re-synced");
+
+	const rest = buildSyncPlan(await manager.sync(client, { ...options, dryRun: true }));
+	assert.deepEqual(rest.items.filter(isApplicable).map((item) => item.docId), [TEXT_DOC]);
+});
@@ -0,0 +1,118 @@
+/**
+ * Sync Plan
+ *
+ * Turns the results of a dry-run sync into a plan the user can review
+ * before anything is written: one item per document that would be
+ * downloaded, overwritten, moved or removed, and one per document left
+ * alone, with the reason. Items that change the vault can be applied on
+ * their own by passing their ids as SyncOptions.onlyDocuments. Pure
+ * TypeScript — no Obsidian deps.
+ */
+
+import type { FileOperation, SyncResults } from "./sync-manager";
+
+/** What a planned sync would do with a document; "skip" leaves it alone. */
+export type PlanAction = "create" | "update" | "conflict-copy" | "move" | "archive" | "delete" | "skip";
+
+export interface PlanItem {
+	docId: string;
+	/** Tablet path, or the vault path of a document only moved or removed. */
+	path: string;
+	action: PlanAction;
+	/** What would happen, or why nothing would, one line per change. */
+	changes: string[];
+}
+
+export interface SyncPlan {
+	/** Changes first, then skips, each sorted by path. */
+	items: PlanItem[];
+	/** Documents already in sync, only counted. */
+	unchanged: number;
+}
+
+const FILE_ACTIONS: Record<FileOperation["action"], PlanAction> = {
+	moved: "move",
+	archived: "archive",
+	deleted: "delete",
+	kept: "skip",
+};
+
+/** True when applying the item changes the vault. */
+export function isApplicable(item: PlanItem): boolean {
+	return item.action !== "skip";
+}
+
+/**
+ * Build the plan from a dry run. A document that is both moved and
+ * rewritten is one item, since a sync applies both or neither.
+ */
+export function buildSyncPlan(results: SyncResults): SyncPlan {
+	const items = new Map<string, PlanItem>();
+	const add = (docId: string, path: string, action: PlanAction, change: string) => {
+		const item = items.get(docId);
+		if (item) {
+			item.changes.push(change);
+		} else {
+			items.set(docId, { docId, path, action, changes: [change] });
+		}
+	};
+
+	for (const operation of results.fileOperations) {
+		add(operation.docId, operation.from, FILE_ACTIONS[operation.action], describePlannedOperation(operation));
+	}
+
+	for (const outcome of results.documents) {
+		const existing = items.get(outcome.docId);
+		if (existing) existing.path = outcome.path;
+		switch (outcome.action) {
+			case "dry-run": {
+				const conflict = results.conflicts.find((c) => c.docId === outcome.docId);
+				const action: PlanAction = conflict ? "conflict-copy" : outcome.reason === "new" ? "create" : "update";
+				const change = conflict
+					? `${conflict.path} was edited in the vault; save the new version as a copy next to it`
+					: `${action === "create" ? "download to" : "overwrite"} ${outcome.output} (${outcome.reason})`;
+				if (existing) existing.action = action;
+				add(outcome.docId, outcome.path, action, change);
+				break;
+			}
+			case "excluded":
+				// A synced document left out is removed; that change says why.
+				if (!existing) add(outcome.docId, outcome.path, "skip", `left out by ${outcome.rule}`);
+				break;
+			case "conflict-skipped":
+				add(outcome.docId, outcome.path, "skip", "edited in the vault; the new version is skipped");
+				break;
+			case "quarantined":
+			case "backing-off":
+				add(
+					outcome.docId,
+					outcome.path,
+					"skip",
+					`${outcome.action === "quarantined" ? "quarantined" : "waiting to retry"} after ` +
+						`${outcome.failures} failures: ${outcome.error}`
+				);
+				break;
+		}
+	}
+
+	const sorted = Array.from(items.values()).sort(
+		(a, b) => Number(isApplicable(b)) - Number(isApplicable(a)) || a.path.localeCompare(b.path)
+	);
+	return { items: sorted, unchanged: results.skipped.length };
+}
+
+// --- Helpers ---
+
+function describePlannedOperation(operation: FileOperation): string {
+	const why = operation.rule ? `left out by ${operation.rule}` : "deleted on the tablet";
+	switch (operation.action) {
+		case "moved":
+			return `move ${operation.from} → ${operation.to}`;
+		case "archived":
+			return `archive ${operation.from} → ${operation.to} (${why})`;
+		case "deleted":
+			return `delete ${operation.from} (${why})`;
+		case "kept":
+			return `keep ${operation.from} (${why})`;
+	}
+}
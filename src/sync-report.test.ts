@@ -0,0 +1,44 @@
+/**
+ * Unit tests for the JSON sync report.
+ *
+ * Run: npx tsx --test src/sync-report.test.ts
+ */
+import test from "node:test";
+import assert from "node:assert/strict";
+import { SYNC_REPORT_FORMAT, type SyncReport, appendSyncReport } from "./sync-report";
+
+function report(startedAt: string): SyncReport {
+	return {
+		startedAt,
+		finishedAt: startedAt,
+		durationMs: 0,
+		source: "reMarkable cloud",
+		folder: "reMarkable",
+		dryRun: false,
+		force: false,
+		cancelled: false,
+		totals: { synced: 0, unchanged: 0, excluded: 0, conflicts: 0, held: 0, errors: 0, fileOperations: 0 },
+		bytesDownloaded: 0,
+		bytesLoaded: 0,
+		bytesWritten: 0,
+		documents: [],
+		fileOperations: [],
+		errorDetails: [],
+	};
+}
+
+test("runs are kept newest first up to the history length", () => {
+	let text: string | null = null;
+	for (const run of ["r1", "r2", "r3", "r4"]) text = appendSyncReport(text, report(run), 3);
+
+	const file = JSON.parse(text!);
+	assert.equal(file.format, SYNC_REPORT_FORMAT);
+	assert.deepEqual(file.runs.map((r: SyncReport) => r.startedAt), ["r4", "r3", "r2"]);
+});
+
+test("an unreadable or foreign report is started afresh", () => {
+	for (const previous of ["{ not json", JSON.stringify({ format: 99, runs: [report("old")] }), "[]"]) {
+		const file = JSON.parse(appendSyncReport(previous, report("new"), 5));
+		assert.deepEqual(file.runs.map((r: SyncReport) => r.startedAt), ["new"]);
+	}
+});
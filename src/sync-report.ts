@@ -0,0 +1,112 @@
+/**
+ * Sync Report
+ *
+ * The machine-readable side of the sync log: every run as a JSON object
+ * with what happened to each document, the file operations, errors, timings
+ * and bytes downloaded and written. Runs are kept newest first in one file
+ * per sync folder, so failures can be tracked across machines and runs. Pure
+ * TypeScript — no Obsidian deps.
+ */
+
+import type { DocumentOutcome, FileOperation, SyncErrorDetail, SyncResults } from "./sync-manager";
+
+/** Bumped when a field is removed or changes meaning; new fields don't bump it. */
+export const SYNC_REPORT_FORMAT = 1;
+
+export interface SyncReport {
+	startedAt: string;
+	finishedAt: string;
+	durationMs: number;
+	/** Where the documents came from, e.g. "reMarkable cloud". */
+	source: string;
+	/** Vault-relative sync folder. */
+	folder: string;
+	dryRun: boolean;
+	force: boolean;
+	cancelled: boolean;
+	totals: {
+		synced: number;
+		unchanged: number;
+		excluded: number;
+		conflicts: number;
+		/** Held back after earlier failures. */
+		held: number;
+		errors: number;
+		fileOperations: number;
+	};
+	/** Received over the network; cached blobs aren't downloaded again. */
+	bytesDownloaded: number;
+	/** Document files loaded, cached blobs included. */
+	bytesLoaded: number;
+	bytesWritten: number;
+	/** Every document acted on; unchanged documents are only counted. */
+	documents: DocumentOutcome[];
+	fileOperations: FileOperation[];
+	errorDetails: SyncErrorDetail[];
+}
+
+/** Layout of the report file. */
+export interface SyncReportFile {
+	format: number;
+	/** Newest first. */
+	runs: SyncReport[];
+}
+
+/** What the report records about a run beyond its results. */
+export interface SyncReportContext {
+	source: string;
+	folder: string;
+	dryRun: boolean;
+	force: boolean;
+}
+
+export function buildSyncReport(results: SyncResults, context: SyncReportContext): SyncReport {
+	return {
+		startedAt: results.startedAt,
+		finishedAt: results.finishedAt,
+		durationMs: results.durationMs,
+		source: context.source,
+		folder: context.folder,
+		dryRun: context.dryRun,
+		force: context.force,
+		cancelled: results.cancelled,
+		totals: {
+			synced: results.synced.length,
+			unchanged: results.skipped.length,
+			excluded: results.excluded.length,
+			conflicts: results.conflicts.length,
+			held: results.held.length,
+			errors: results.errors.length,
+			fileOperations: results.fileOperations.length,
+		},
+		bytesDownloaded: results.bytesDownloaded,
+		bytesLoaded: results.bytesLoaded,
+		bytesWritten: results.bytesWritten,
+		documents: results.documents,
+		fileOperations: results.fileOperations,
+		errorDetails: results.errorDetails,
+	};
+}
+
+/**
+ * Add `report` in front of the runs in `previous` (the report file's text,
+ * or null) and keep the newest `history` runs. A file that can't be read,
+ * or was written in another format, is started afresh.
+ */
+export function appendSyncReport(previous: string | null, report: SyncReport, history: number): string {
+	const runs = [report, ...previousRuns(previous)].slice(0, Math.max(1, history));
+	const file: SyncReportFile = { format: SYNC_REPORT_FORMAT, runs };
+	return JSON.stringify(file, null, "\t") + "\n";
+}
+
+// --- Helpers ---
+
+function previousRuns(text: string | null): SyncReport[] {
+	if (!text) return [];
+	try {
+		const parsed = JSON.parse(text) as Partial<SyncReportFile>;
+		return parsed.format === SYNC_REPORT_FORMAT && Array.isArray(parsed.runs) ? parsed.runs : [];
+	} catch {
+		return [];
+	}
+}
@@ -0,0 +1,75 @@
+/**
+ * Unit tests for the include/exclude rule engine.
+ *
+ * Run: npx tsx --test src/sync-rules.test.ts
+ */
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { DocumentMetadata } from "./cloud-client";
+import { compileRules, globToRegExp } from "./sync-rules";
+
+function doc(fields: Partial<DocumentMetadata> = {}): DocumentMetadata {
+	return {
+		id: "doc-1",
+		version: 1,
+		name: "Notes",
+		parent: "",
+		docType: "DocumentType",
+		createdTime: "",
+		modifiedTime: String(Date.parse("2024-06-01")),
+		pinned: false,
+		isTrashed: false,
+		entryHash: "",
+		fileType: "notebook",
+		tags: [],
+		...fields,
+	};
+}
+
+test("globs keep * within a folder and let ** span folders", () => {
+	assert.ok(globToRegExp("Work/*").test("Work/Notes"));
+	assert.ok(!globToRegExp("Work/*").test("Work/Meetings/Standup"));
+	assert.ok(globToRegExp("Work/**").test("Work/Meetings/Standup"));
+	assert.ok(globToRegExp("**/Standup").test("Standup"));
+	assert.ok(globToRegExp("**/Stand?p").test("Work/Meetings/standup"));
+	assert.ok(globToRegExp("/Notes (v1.2)/").test("Notes (v1.2)"));
+	assert.ok(!globToRegExp("Notes (v1.2)").test("Notes (v1x2)"));
+});
+
+test("folders are matched whole, never by name prefix", () => {
+	const check = compileRules({ folder: "Work", excludeFolders: ["Work/Archive/"] });
+	assert.equal(check(doc(), "Work/Notes"), null);
+	assert.equal(check(doc(), "Workshop/Notes"), 'folder "Work"');
+	assert.equal(check(doc(), "Work/Archive/Old"), 'excluded folder "Work/Archive"');
+});
+
+test("include and exclude patterns cover whole folders and name the pattern", () => {
+	const check = compileRules({ include: ["Work/Meetings", "Research/**/Paper*"], exclude: ["**/Draft*"] });
+	assert.equal(check(doc(), "Work/Meetings/Standup"), null);
+	assert.equal(check(doc(), "Research/2024/Paper A"), null);
+	assert.equal(check(doc(), "Work/Notes"), 'include "Work/Meetings", "Research/**/Paper*"');
+	assert.equal(check(doc(), "Work/Meetings/Drafts/Standup"), 'exclude "**/Draft*"');
+});
+
+test("type, pinned, tag and modified-since rules each name themselves", () => {
+	assert.equal(compileRules({ types: ["pdf", "epub"] })(doc(), "Notes"), "type pdf/epub (this is a notebook)");
+	assert.equal(compileRules({ types: ["notebook"] })(doc(), "Notes"), null);
+
+	assert.equal(compileRules({ pinnedOnly: true })(doc(), "Notes"), "pinned only");
+	assert.equal(compileRules({ pinnedOnly: true })(doc({ pinned: true }), "Notes"), null);
+
+	const tagged = compileRules({ tags: ["Work", " research "] });
+	assert.equal(tagged(doc({ tags: ["work"] }), "Notes"), null);
+	assert.equal(tagged(doc({ tags: ["home"] }), "Notes"), "tags Work, research");
+
+	const recent = compileRules({ modifiedSince: "2024-05-01" });
+	assert.equal(recent(doc(), "Notes"), null);
+	assert.equal(recent(doc({ modifiedTime: String(Date.parse("2024-04-30")) }), "Notes"), "modified since 2024-05-01");
+	assert.equal(recent(doc({ modifiedTime: "" }), "Notes"), "modified since 2024-05-01");
+});
+
+test("empty rules sync everything and a bad date is refused", () => {
+	const check = compileRules({ include: [" "], exclude: [], tags: [""], types: [], modifiedSince: "" });
+	assert.equal(check(doc(), "Anything/At/All"), null);
+	assert.throws(() => compileRules({ modifiedSince: "last week" }), /Invalid modified-since date: last week/);
+});
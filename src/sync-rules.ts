@@ -0,0 +1,145 @@
+/**
+ * Sync Rules
+ *
+ * Decides which documents a sync includes, from a document's metadata and
+ * its tablet path as built by buildFolderTree ("Work/Meetings/Standup").
+ * Every rule that leaves a document out names itself, so a sync log can say
+ * why each document was skipped. Pure TypeScript — no Obsidian deps.
+ */
+
+import type { DocumentFileType, DocumentMetadata } from "./cloud-client";
+
+export interface SyncRules {
+	/** reMarkable folder to sync, with its subfolders; empty = the whole library. */
+	folder?: string;
+	/** reMarkable folders left out, with their subfolders. */
+	excludeFolders?: string[];
+	/**
+	 * Globs over the tablet path; when given, a document must match one.
+	 * `*` and `?` stay within a folder, `**` spans folders, and a pattern that
+	 * matches a folder covers everything in it. Case-insensitive.
+	 */
+	include?: string[];
+	/** Globs as for `include`; a document matching any is left out. */
+	exclude?: string[];
+	/** Document types to sync; empty = all. */
+	types?: DocumentFileType[];
+	/** Only documents pinned (favourited) on the tablet. */
+	pinnedOnly?: boolean;
+	/** Only documents with at least one of these tags. Case-insensitive. */
+	tags?: string[];
+	/** Only documents modified on or after this date (e.g. "2024-05-01"). */
+	modifiedSince?: string;
+}
+
+/** Why a document is left out, e.g. `exclude "Work/**"`; null to sync it. */
+export type RuleCheck = (doc: DocumentMetadata, path: string) => string | null;
+
+/**
+ * Compile a rule set once per sync. Throws on a modified-since value that
+ * isn't a date, so a typo fails the sync instead of silently matching
+ * nothing.
+ */
+export function compileRules(rules: SyncRules): RuleCheck {
+	const folder = folderKey(rules.folder ?? "");
+	const excludedFolders = (rules.excludeFolders ?? []).map(folderKey).filter((f) => f);
+	const include = compileGlobs(rules.include);
+	const exclude = compileGlobs(rules.exclude);
+	const types = rules.types ?? [];
+	const tags = (rules.tags ?? []).map((tag) => tag.trim()).filter((tag) => tag);
+	const wantedTags = tags.map((tag) => tag.toLowerCase());
+
+	const sinceText = rules.modifiedSince?.trim() ?? "";
+	const since = sinceText ? Date.parse(sinceText) : null;
+	if (since !== null && isNaN(since)) {
+		throw new Error(`Invalid modified-since date: ${sinceText}`);
+	}
+
+	return (doc, path) => {
+		if (folder && !inFolder(path, folder)) {
+			return `folder "${folder}"`;
+		}
+		const excludedFolder = excludedFolders.find((f) => inFolder(path, f));
+		if (excludedFolder) {
+			return `excluded folder "${excludedFolder}"`;
+		}
+		if (include.length > 0 && !include.some((glob) => matchesPath(glob.pattern, path))) {
+			return `include ${include.map((glob) => `"${glob.text}"`).join(", ")}`;
+		}
+		const excludedBy = exclude.find((glob) => matchesPath(glob.pattern, path));
+		if (excludedBy) {
+			return `exclude "${excludedBy.text}"`;
+		}
+		if (types.length > 0 && !types.includes(doc.fileType)) {
+			return `type ${types.join("/")} (this is a ${doc.fileType})`;
+		}
+		if (rules.pinnedOnly && !doc.pinned) {
+			return "pinned only";
+		}
+		if (wantedTags.length > 0 && !doc.tags.some((tag) => wantedTags.includes(tag.toLowerCase()))) {
+			return `tags ${tags.join(", ")}`;
+		}
+		if (since !== null && (Number(doc.modifiedTime) || 0) < since) {
+			return `modified since ${sinceText}`;
+		}
+		return null;
+	};
+}
+
+/**
+ * Translate a glob into an anchored, case-insensitive RegExp over "/"
+ * separated paths. Leading and trailing slashes are ignored.
+ */
+export function globToRegExp(glob: string): RegExp {
+	const pattern = folderKey(glob);
+	let source = "";
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+		if (char === "*" && pattern[i + 1] === "*") {
+			// "**/" may match no folders at all, so "**/Notes" matches "Notes".
+			if (pattern[i + 2] === "/") {
+				source += "(?:.*/)?";
+				i += 2;
+			} else {
+				source += ".*";
+				i += 1;
+			}
+		} else if (char === "*") {
+			source += "[^/]*";
+		} else if (char === "?") {
+			source += "[^/]";
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+	return new RegExp(`^${source}$`, "i");
+}
+
+// --- Helpers ---
+
+function compileGlobs(globs: string[] | undefined): { text: string; pattern: RegExp }[] {
+	return (globs ?? [])
+		.map((glob) => glob.trim())
+		.filter((glob) => glob)
+		.map((text) => ({ text, pattern: globToRegExp(text) }));
+}
+
+// A pattern matches a document when it matches its path or any folder
+// above it, so "Work/Meetings" covers "Work/Meetings/Standup".
+function matchesPath(pattern: RegExp, path: string): boolean {
+	const segments = path.split("/");
+	for (let i = 1; i <= segments.length; i++) {
+		if (pattern.test(segments.slice(0, i).join("/"))) return true;
+	}
+	return false;
+}
+
+// " /Work/Meetings/ " → "Work/Meetings"
+function folderKey(folder: string): string {
+	return folder.trim().replace(/^\/+|\/+$/g, "");
+}
+
+// True for the folder itself and everything below it.
+function inFolder(path: string, folder: string): boolean {
+	return path === folder || path.startsWith(folder + "/");
+}
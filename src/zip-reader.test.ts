@@ -0,0 +1,116 @@
+/**
+ * Unit tests for the ZIP reader and .rmdoc conversion.
+ *
+ * Archives are built in the test with Node's zlib, so stored and deflated
+ * entries, comments and corruption can each be exercised directly.
+ *
+ * Run: npx tsx --test src/zip-reader.test.ts
+ */
+import test from "node:test";
+import assert from "node:assert/strict";
+import { deflateRawSync } from "zlib";
+import { PDFDocument } from "pdf-lib";
+import { readZip } from "./zip-reader";
+import { convertArchive } from "./document-converter";
+import { loadReferenceLibrary } from "./mock-cloud";
+
+const PAGES_DOC = "b7d19d8b-8ecc-43a8-a79e-c024c29eab11";
+
+function crc32(data: Uint8Array): number {
+	let crc = 0xffffffff;
+	for (const byte of data) {
+		crc ^= byte;
+		for (let k = 0; k < 8; k++) crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+interface ZipEntry {
+	name: string;
+	data: Uint8Array;
+	deflate?: boolean;
+}
+
+/** Build a ZIP archive the way common zip tools lay one out. */
+function buildZip(entries: ZipEntry[], comment = ""): Uint8Array {
+	const locals: Buffer[] = [];
+	const centrals: Buffer[] = [];
+	let offset = 0;
+	for (const entry of entries) {
+		const name = Buffer.from(entry.name);
+		const body = entry.deflate ? deflateRawSync(entry.data) : Buffer.from(entry.data);
+		const fields = (header: Buffer, at: number) => {
+			header.writeUInt16LE(entry.deflate ? 8 : 0, at);
+			header.writeUInt32LE(crc32(entry.data), at + 6);
+			header.writeUInt32LE(body.length, at + 10);
+			header.writeUInt32LE(entry.data.length, at + 14);
+			header.writeUInt16LE(name.length, at + 18);
+		};
+
+		const local = Buffer.alloc(30);
+		local.writeUInt32LE(0x04034b50, 0);
+		local.writeUInt16LE(20, 4);
+		fields(local, 8);
+		locals.push(local, name, body);
+
+		const central = Buffer.alloc(46);
+		central.writeUInt32LE(0x02014b50, 0);
+		central.writeUInt16LE(20, 4);
+		central.writeUInt16LE(20, 6);
+		fields(central, 10);
+		central.writeUInt32LE(offset, 42);
+		centrals.push(central, name);
+
+		offset += local.length + name.length + body.length;
+	}
+	const directory = Buffer.concat(centrals);
+	const end = Buffer.alloc(22);
+	end.writeUInt32LE(0x06054b50, 0);
+	end.writeUInt16LE(entries.length, 8);
+	end.writeUInt16LE(entries.length, 10);
+	end.writeUInt32LE(directory.length, 12);
+	end.writeUInt32LE(offset, 16);
+	end.writeUInt16LE(Buffer.byteLength(comment), 20);
+	return new Uint8Array(Buffer.concat([...locals, directory, end, Buffer.from(comment)]));
+}
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+test("reads stored and deflated entries and skips directories", async () => {
+	const big = text("stroke ".repeat(1000));
+	const zip = buildZip([
+		{ name: "doc/", data: new Uint8Array() },
+		{ name: "doc.content", data: text("{}") },
+		{ name: "doc/page.rm", data: big, deflate: true },
+	], "exported by test");
+
+	const files = await readZip(zip);
+	assert.deepEqual(Array.from(files.keys()), ["doc.content", "doc/page.rm"]);
+	assert.deepEqual(files.get("doc/page.rm"), big);
+});
+
+test("rejects data that isn't a ZIP archive", async () => {
+	await assert.rejects(readZip(text("%PDF-1.7 not a zip")), /Not a ZIP archive/);
+});
+
+test("rejects entries whose checksum doesn't match", async () => {
+	const zip = buildZip([{ name: "a.txt", data: text("hello") }]);
+	const bodyOffset = 30 + "a.txt".length;
+	zip[bodyOffset] ^= 0xff;
+	await assert.rejects(readZip(zip), /Corrupt ZIP entry: a\.txt/);
+});
+
+test("converts an .rmdoc export of a reference notebook", async () => {
+	const doc = loadReferenceLibrary().documents.get(PAGES_DOC)!;
+	const rmdoc = buildZip(
+		Array.from(doc.files, ([name, data]) => ({ name, data, deflate: name.endsWith(".rm") }))
+	);
+
+	const pdf = await PDFDocument.load(await convertArchive(rmdoc));
+	assert.equal(pdf.getPageCount(), 4);
+});
+
+test("an archive without reMarkable files is refused", async () => {
+	const zip = buildZip([{ name: "notes.txt", data: text("hi") }]);
+	await assert.rejects(convertArchive(zip), /Not a reMarkable archive/);
+});
@@ -0,0 +1,123 @@
+/**
+ * ZIP Reader
+ *
+ * Minimal, dependency-free reader for the .rmdoc and .zip archives exported
+ * by the reMarkable desktop app and the USB web interface. Unpacks an archive
+ * into the logical-filename → bytes map DocumentConverter consumes. Supports
+ * stored and deflated entries (inflated with the platform's
+ * DecompressionStream); ZIP64, encryption and multi-disk archives are not
+ * produced by reMarkable and are rejected.
+ */
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const EOCD_MIN_SIZE = 22;
+// The end record may be followed by a comment of up to 64 KiB.
+const EOCD_MAX_SEARCH = EOCD_MIN_SIZE + 0xffff;
+const CENTRAL_HEADER_SIZE = 46;
+const LOCAL_HEADER_SIZE = 30;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+const FLAG_ENCRYPTED = 0x1;
+
+/** Unpack every file in a ZIP archive. Directory entries are skipped. */
+export async function readZip(data: Uint8Array): Promise<Map<string, Uint8Array>> {
+	const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+	const eocd = findEndOfCentralDirectory(view);
+	const entryCount = view.getUint16(eocd + 10, true);
+	const directoryOffset = view.getUint32(eocd + 16, true);
+	if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+		throw new Error("ZIP64 archives are not supported");
+	}
+
+	const files = new Map<string, Uint8Array>();
+	let offset = directoryOffset;
+	for (let i = 0; i < entryCount; i++) {
+		if (offset + CENTRAL_HEADER_SIZE > data.byteLength || view.getUint32(offset, true) !== CENTRAL_SIGNATURE) {
+			throw new Error("Corrupt ZIP archive: bad central directory");
+		}
+		const flags = view.getUint16(offset + 8, true);
+		const method = view.getUint16(offset + 10, true);
+		const crc = view.getUint32(offset + 16, true);
+		const compressedSize = view.getUint32(offset + 20, true);
+		const size = view.getUint32(offset + 24, true);
+		const nameLength = view.getUint16(offset + 28, true);
+		const extraLength = view.getUint16(offset + 30, true);
+		const commentLength = view.getUint16(offset + 32, true);
+		const localOffset = view.getUint32(offset + 42, true);
+		const name = new TextDecoder().decode(
+			data.subarray(offset + CENTRAL_HEADER_SIZE, offset + CENTRAL_HEADER_SIZE + nameLength)
+		);
+		offset += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+
+		if (name.endsWith("/")) continue;
+		if (flags & FLAG_ENCRYPTED) throw new Error(`Encrypted ZIP entry: ${name}`);
+
+		const compressed = localEntryData(view, data, localOffset, compressedSize, name);
+		const content = await decompress(compressed, method, name);
+		if (content.byteLength !== size || crc32(content) !== crc) {
+			throw new Error(`Corrupt ZIP entry: ${name}`);
+		}
+		files.set(name, content);
+	}
+	return files;
+}
+
+// --- Internals ---
+
+function findEndOfCentralDirectory(view: DataView): number {
+	const last = view.byteLength - EOCD_MIN_SIZE;
+	const first = Math.max(0, view.byteLength - EOCD_MAX_SEARCH);
+	for (let i = last; i >= first; i--) {
+		if (view.getUint32(i, true) === EOCD_SIGNATURE) return i;
+	}
+	throw new Error("Not a ZIP archive");
+}
+
+// The local header repeats the name and has its own extra field, so the data
+// offset has to be read from it rather than derived from the central entry.
+function localEntryData(
+	view: DataView,
+	data: Uint8Array,
+	offset: number,
+	compressedSize: number,
+	name: string
+): Uint8Array {
+	if (offset + LOCAL_HEADER_SIZE > data.byteLength || view.getUint32(offset, true) !== LOCAL_SIGNATURE) {
+		throw new Error(`Corrupt ZIP entry: ${name}`);
+	}
+	const start = offset + LOCAL_HEADER_SIZE + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true);
+	if (start + compressedSize > data.byteLength) {
+		throw new Error(`Truncated ZIP entry: ${name}`);
+	}
+	return data.subarray(start, start + compressedSize);
+}
+
+async function decompress(data: Uint8Array, method: number, name: string): Promise<Uint8Array> {
+	if (method === METHOD_STORED) return data.slice();
+	if (method !== METHOD_DEFLATED) {
+		throw new Error(`Unsupported compression method ${method} for ${name}`);
+	}
+	const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+	if (!crcTable) {
+		crcTable = new Uint32Array(256);
+		for (let n = 0; n < 256; n++) {
+			let c = n;
+			for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+			crcTable[n] = c >>> 0;
+		}
+	}
+	let crc = 0xffffffff;
+	for (let i = 0; i < data.length; i++) {
+		crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
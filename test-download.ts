@@ -10,10 +10,13 @@ import { RemarkableCloudClient, type FileOps, buildFolderTree } from './src/clou
 
 const fileOps: FileOps = {
 	readFile: async (p) => { try { return await fs.promises.readFile(p, 'utf-8'); } catch { return null; } },
+	readBinaryFile: async (p) => { try { return new Uint8Array(await fs.promises.readFile(p)); } catch { return null; } },
 	writeFile: async (p, data) => { await fs.promises.mkdir(path.dirname(p), { recursive: true }); await fs.promises.writeFile(p, data, 'utf-8'); },
 	writeBinaryFile: async (p, data) => { await fs.promises.mkdir(path.dirname(p), { recursive: true }); await fs.promises.writeFile(p, data); },
 	mkdir: async (p) => { await fs.promises.mkdir(p, { recursive: true }); },
 	exists: async (p) => { try { await fs.promises.access(p); return true; } catch { return false; } },
+	remove: async (p) => { await fs.promises.rm(p, { force: true }); },
+	rename: async (from, to) => { await fs.promises.mkdir(path.dirname(to), { recursive: true }); await fs.promises.rename(from, to); },
 };
 
 async function main() {